@@ -1,37 +1,209 @@
 import * as React from "react";
-import { atom, createStore as createJotaiStore, type PrimitiveAtom } from "jotai/vanilla";
+import {
+  atom,
+  createStore as createJotaiStore,
+  type Atom,
+  type PrimitiveAtom,
+  type SetStateAction,
+  type WritableAtom,
+} from "jotai/vanilla";
 import type { Store } from "jotai/vanilla/store";
+import { useStore as useJotaiStore } from "jotai/react";
+
+/** Node's `process`, typed locally so consumers do not need Node typings. */
+declare const process: { env: { NODE_ENV?: string } };
 
 type Unsubscribe = () => void;
 type Subscriber = () => void;
 type Cleanup = () => void;
 
+const CLEAN = 0;
+const CHECK = 1;
+const DIRTY = 2;
+
+type StaleState = typeof CHECK | typeof DIRTY;
+type NodeState = typeof CLEAN | StaleState;
+
+interface Observer {
+  /** Push phase: a source may have changed. `cause` is only passed while render tracing is on. */
+  markStale(state: StaleState, cause?: RenderCause): void;
+  /** Pull phase: a source that was pending a check produced a new value. */
+  markChanged(cause?: RenderCause): void;
+}
+
 interface Subscribable {
-  subscribe(callback: Subscriber): Unsubscribe;
+  subscribe(observer: Observer): Unsubscribe;
+  /** Brings the source up to date before its value is compared or read. */
+  refresh(): void;
 }
 
 interface DependencyCollector {
   addDependency(dep: Subscribable): void;
+  /** Returns a function that keeps adding reads to this collector after the current run returns. */
+  capture(): Track;
+}
+
+/**
+ * Flush priorities. Within a flush, computeds settle first so derived writes are
+ * visible to render-phase work, which in turn runs before user effects.
+ */
+const COMPUTED_QUEUE = 0;
+const RENDER_QUEUE = 1;
+const EFFECT_QUEUE = 2;
+
+type QueuePriority = typeof COMPUTED_QUEUE | typeof RENDER_QUEUE | typeof EFFECT_QUEUE;
+
+const runtimeConfig = {
+  maxUpdateDepth: 100,
+  traceRenders: false,
+  componentStore: "isolated" as ComponentStoreMode,
+  // Spelled out literally so bundlers can replace `process.env.NODE_ENV` in production builds.
+  devMode: typeof process !== "undefined" && process.env.NODE_ENV !== "production",
+};
+
+/** Memos currently updating, innermost last. Only maintained in dev mode, for cycle reports. */
+const computingStack: Array<{ readonly label: string }> = [];
+
+function describeComputation(kind: string, name: string | undefined): string {
+  return name ? `${kind} "${name}"` : `${kind} (anonymous)`;
+}
+
+/** Empties the flush queues, resetting each dropped tracker so its next change queues it again. */
+function discardPendingQueues(): void {
+  for (const queue of pendingQueues) {
+    const dropped = [...queue];
+    queue.clear();
+    for (const tracker of dropped) {
+      tracker.discard();
+    }
+  }
 }
 
 const collectorStack: DependencyCollector[] = [];
 let batchDepth = 0;
-const pendingSubscribers = new Set<Subscriber>();
+/** Incremented whenever an outermost batch opens, so writes can be grouped per batch. */
+let batchSerial = 0;
+let flushing = false;
+const pendingQueues: [Set<DependencyTracker>, Set<DependencyTracker>, Set<DependencyTracker>] = [
+  new Set(),
+  new Set(),
+  new Set(),
+];
+
+function nextPendingObserver(): DependencyTracker | undefined {
+  for (const queue of pendingQueues) {
+    for (const observer of queue) {
+      queue.delete(observer);
+      return observer;
+    }
+  }
+  return undefined;
+}
+
+function markObservers(observers: Iterable<Observer>, state: StaleState, cause?: RenderCause): void {
+  for (const observer of observers) {
+    observer.markStale(state, cause);
+  }
+}
+
+/** Number of live trackers recording render causes; sources only build causes while it is non-zero. */
+let tracedTrackerCount = 0;
+
+const activeProfilers = new Set<ProfilerSession>();
+
+function profileNow(): number {
+  return globalThis.performance?.now() ?? Date.now();
+}
+
+/**
+ * Starts timing one run for the active profilers.
+ *
+ * @returns Function recording the run once it ends, or `null` when nothing is profiling.
+ */
+function startProfiling(kind: ProfileKind, label: string): (() => void) | null {
+  if (activeProfilers.size === 0) {
+    return null;
+  }
+  const start = profileNow();
+  return () => {
+    const duration = profileNow() - start;
+    for (const profiler of activeProfilers) {
+      profiler.record(kind, label, start, duration);
+    }
+  };
+}
+
+function countProfiled(kind: ProfileKind, label: string): void {
+  for (const profiler of activeProfilers) {
+    profiler.record(kind, label, null, null);
+  }
+}
 
-function notifySubscriber(subscriber: Subscriber): void {
-  if (batchDepth > 0) {
-    pendingSubscribers.add(subscriber);
+function isEqual<T>(equals: EqualityCheck<T> | undefined, previous: T, next: T): boolean {
+  if (equals === false) {
+    return false;
+  }
+  return (equals ?? Object.is)(previous, next);
+}
+
+/**
+ * Runs queued computations until the graph settles, always taking the next
+ * observer from the highest-priority non-empty queue. Each computation pulls
+ * its sources before deciding to run, so memos are evaluated in dependency
+ * order and at most once per change.
+ */
+function flushObservers(): void {
+  if (flushing) {
     return;
   }
-  subscriber();
+
+  flushing = true;
+  let failure: { error: unknown } | null = null;
+  const runCounts = new Map<DependencyTracker, number>();
+  try {
+    let observer = nextPendingObserver();
+    while (observer) {
+      const runs = (runCounts.get(observer) ?? 0) + 1;
+      runCounts.set(observer, runs);
+      try {
+        if (runs > runtimeConfig.maxUpdateDepth) {
+          observer.discard();
+          discardPendingQueues();
+          handleError(
+            observer.owner,
+            new Error(
+              `Maximum update depth exceeded: ${observer.label} ran more than ${runtimeConfig.maxUpdateDepth} times in one flush. ` +
+                "A computation is likely writing to a signal it depends on.",
+            ),
+          );
+        } else {
+          observer.run();
+        }
+      } catch (error) {
+        failure ??= { error };
+      }
+      observer = nextPendingObserver();
+    }
+  } finally {
+    flushing = false;
+  }
+
+  if (failure) {
+    throw failure.error;
+  }
 }
 
-function flushSubscribers(): void {
-  while (pendingSubscribers.size > 0) {
-    const queued = Array.from(pendingSubscribers);
-    pendingSubscribers.clear();
-    for (const subscriber of queued) {
-      subscriber();
+function runBatched<T>(fn: () => T): T {
+  if (batchDepth === 0) {
+    batchSerial += 1;
+  }
+  batchDepth += 1;
+  try {
+    return fn();
+  } finally {
+    batchDepth -= 1;
+    if (batchDepth === 0) {
+      flushObservers();
     }
   }
 }
@@ -52,17 +224,45 @@ function trackDependency(dep: Subscribable): void {
   currentCollector()?.addDependency(dep);
 }
 
-class DependencyTracker implements DependencyCollector {
+class DependencyTracker implements DependencyCollector, Observer {
+  private state: NodeState = CLEAN;
   private subscriptions = new Map<Subscribable, Unsubscribe>();
   private collecting = new Set<Subscribable>();
-
-  constructor(private readonly onDependencyChange: Subscriber) {}
+  /** Bumped on every run and on disposal, so captured trackers can tell they are stale. */
+  private generation = 0;
+
+  readonly label: string;
+  /** Owner whose error handlers see failures of the flush itself, such as the update-depth abort. */
+  readonly owner: OwnerNode | null;
+  /** Number of times `collect` ran: recomputes, effect runs or renders of the owner. */
+  runs = 0;
+  /** Changes that invalidated this tracker since the last `takeCauses`, when tracing. */
+  private causes: RenderCause[] | null = null;
+  private readonly onStale: Subscriber | undefined;
+  private readonly priority: QueuePriority;
+
+  /**
+   * @param onDependencyChange Runs once a queued tracker confirms a source really changed.
+   * @param options `priority` picks the flush queue; `onStale` replaces queueing,
+   * used by memos to forward staleness downstream; `label` names the owner in diagnostics.
+   */
+  constructor(
+    private readonly onDependencyChange: Subscriber,
+    options: { priority?: QueuePriority; onStale?: Subscriber; label?: string; owner?: OwnerNode | null } = {},
+  ) {
+    this.priority = options.priority ?? EFFECT_QUEUE;
+    this.onStale = options.onStale;
+    this.label = options.label ?? "computation";
+    this.owner = options.owner ?? null;
+  }
 
   addDependency(dep: Subscribable): void {
     this.collecting.add(dep);
   }
 
   collect<T>(fn: () => T): T {
+    this.runs += 1;
+    this.generation += 1;
     this.collecting = new Set<Subscribable>();
     pushCollector(this);
     try {
@@ -73,11 +273,135 @@ class DependencyTracker implements DependencyCollector {
     }
   }
 
+  /**
+   * Reads passed to the returned function after the run has finished (e.g. after an
+   * `await`) are added to the dependencies of that run. Once the tracker re-runs or is
+   * disposed, reads are no longer tracked.
+   */
+  capture(): Track {
+    const generation = this.generation;
+    return (read) => {
+      if (generation !== this.generation) {
+        return untrack(read);
+      }
+      if (currentCollector() === this) {
+        return read();
+      }
+
+      pushCollector(this);
+      try {
+        return read();
+      } finally {
+        popCollector();
+        this.reconcileSubscriptions(this.collecting);
+      }
+    };
+  }
+
+  markStale(state: StaleState, cause?: RenderCause): void {
+    if (cause) {
+      this.causes?.push(cause);
+    }
+    if (this.state >= state) {
+      return;
+    }
+
+    const wasClean = this.state === CLEAN;
+    this.state = state;
+    if (!wasClean) {
+      return;
+    }
+
+    if (this.onStale) {
+      this.onStale();
+      return;
+    }
+    pendingQueues[this.priority].add(this);
+  }
+
+  markChanged(cause?: RenderCause): void {
+    if (cause) {
+      this.causes?.push(cause);
+    }
+    if (this.state === CHECK) {
+      this.state = DIRTY;
+    }
+  }
+
+  /** Starts recording the changes that invalidate this tracker. */
+  traceCauses(): void {
+    if (!this.causes) {
+      this.causes = [];
+      tracedTrackerCount += 1;
+    }
+  }
+
+  takeCauses(): RenderCause[] {
+    const causes = this.causes ?? [];
+    if (this.causes) {
+      this.causes = [];
+    }
+    return causes;
+  }
+
+  /**
+   * Pulls possibly-stale sources in subscription order and resets to clean.
+   *
+   * @returns `true` when at least one source produced a new value.
+   */
+  refresh(): boolean {
+    if (this.state === CHECK) {
+      for (const dep of this.subscriptions.keys()) {
+        dep.refresh();
+        if ((this.state as NodeState) === DIRTY) {
+          break;
+        }
+      }
+    }
+
+    const dirty = this.state === DIRTY;
+    this.state = CLEAN;
+    return dirty;
+  }
+
+  sources(): Iterable<Subscribable> {
+    return this.subscriptions.keys();
+  }
+
+  run(): void {
+    if (this.refresh()) {
+      this.onDependencyChange();
+    }
+  }
+
+  /**
+   * Drops a pending run without executing it. Sources are still pulled so stale memos
+   * settle, and the tracker returns to clean, so the next change queues it again.
+   */
+  discard(): void {
+    pendingQueues[this.priority].delete(this);
+    for (const dep of this.subscriptions.keys()) {
+      try {
+        dep.refresh();
+      } catch {
+        // Memo errors are kept by the memo and rethrown to its next reader.
+      }
+    }
+    this.state = CLEAN;
+  }
+
   dispose(): void {
     for (const unsubscribe of this.subscriptions.values()) {
       unsubscribe();
     }
     this.subscriptions.clear();
+    pendingQueues[this.priority].delete(this);
+    this.state = CLEAN;
+    this.generation += 1;
+    if (this.causes) {
+      this.causes = null;
+      tracedTrackerCount -= 1;
+    }
   }
 
   private reconcileSubscriptions(nextDeps: Set<Subscribable>): void {
@@ -90,40 +414,178 @@ class DependencyTracker implements DependencyCollector {
 
     for (const dep of nextDeps) {
       if (!this.subscriptions.has(dep)) {
-        const unsubscribe = dep.subscribe(this.onDependencyChange);
+        const unsubscribe = dep.subscribe(this);
         this.subscriptions.set(dep, unsubscribe);
       }
     }
   }
 }
 
-class Scope {
-  readonly store: Store = createJotaiStore();
+type Disposable = { dispose(): void };
+
+/**
+ * Node in the ownership tree. Owners dispose the computations and cleanups
+ * registered under them, newest first.
+ */
+class OwnerNode implements Owner {
+  private owned: Disposable[] = [];
+  private cleanups: Cleanup[] = [];
+  private context: Map<symbol, unknown> | null = null;
+  protected disposed = false;
+
+  constructor(readonly parent: OwnerNode | null) {}
+
+  get scope(): Scope {
+    let cursor: OwnerNode | null = this;
+    while (cursor && !(cursor instanceof Scope)) {
+      cursor = cursor.parent;
+    }
+    return cursor ?? getGlobalScope();
+  }
+
+  provideContext(id: symbol, value: unknown): void {
+    if (!this.context) {
+      this.context = new Map();
+    }
+    this.context.set(id, value);
+  }
+
+  lookupContext(id: symbol): { value: unknown } | undefined {
+    let cursor: OwnerNode | null = this;
+    while (cursor) {
+      if (cursor.context?.has(id)) {
+        return { value: cursor.context.get(id) };
+      }
+      cursor = cursor.parent;
+    }
+    return undefined;
+  }
+
+  register(disposable: Disposable): void {
+    if (this.disposed) {
+      disposable.dispose();
+      return;
+    }
+    this.owned.push(disposable);
+  }
+
+  registerCleanup(cleanup: Cleanup): void {
+    if (this.disposed) {
+      cleanup();
+      return;
+    }
+    this.cleanups.push(cleanup);
+  }
+
+  dispose(): void {
+    if (this.disposed) {
+      return;
+    }
+    this.disposed = true;
+    this.disposeOwned();
+  }
+
+  /** Disposes owned children, then runs own cleanups, both in reverse registration order. */
+  protected disposeOwned(): void {
+    const owned = this.owned;
+    const cleanups = this.cleanups;
+    this.owned = [];
+    this.cleanups = [];
+
+    for (let index = owned.length - 1; index >= 0; index -= 1) {
+      owned[index]!.dispose();
+    }
+    for (let index = cleanups.length - 1; index >= 0; index -= 1) {
+      cleanups[index]!();
+    }
+  }
+}
+
+class Scope extends OwnerNode {
+  readonly store: Store;
 
-  private readonly disposables = new Set<{ dispose(): void }>();
-  private readonly scopeCleanups = new Set<Cleanup>();
   private readonly layoutStarters: Array<() => void> = [];
   private readonly effectStarters: Array<() => void> = [];
   private layoutStarted: boolean;
   private effectsStarted: boolean;
   private uniqueIdCounter = 0;
-
-  constructor(options: { autoStart?: boolean } = {}) {
+  /** Snapshot-able signals and stores by snapshot key. Unowned global-scope ones are held weakly. */
+  private readonly sources = new Map<string, SignalSource<unknown> | WeakRef<SignalSource<unknown>>>();
+  private collectedSources: FinalizationRegistry<{ key: string; ref: WeakRef<SignalSource<unknown>> }> | null = null;
+  private sourceCounter = 0;
+  private readonly historyLogs = new Set<HistoryLog>();
+
+  constructor(options: { autoStart?: boolean; parent?: OwnerNode | null; store?: Store } = {}) {
+    super(options.parent ?? null);
+    this.store = options.store ?? createJotaiStore();
     this.layoutStarted = Boolean(options.autoStart);
     this.effectsStarted = Boolean(options.autoStart);
   }
 
+  override get scope(): Scope {
+    return this;
+  }
+
   nextUniqueId(prefix: string): string {
     this.uniqueIdCounter += 1;
     return `${prefix}${this.uniqueIdCounter}`;
   }
 
-  register(disposable: { dispose(): void }): void {
-    this.disposables.add(disposable);
+  /**
+   * Includes a signal in this scope's snapshots and history until `owner` is disposed.
+   * Keys are the signal's name, or `name#n` / `signal#n` for anonymous or repeated names.
+   */
+  adoptSource(source: SignalSource<unknown>, owner: OwnerNode): void {
+    this.sourceCounter += 1;
+    const key =
+      source.name && !this.sources.has(source.name)
+        ? source.name
+        : `${source.name ?? "signal"}#${this.sourceCounter}`;
+    source.adopt(this, key);
+    if (owner !== this) {
+      this.sources.set(key, source);
+      owner.registerCleanup(() => {
+        this.sources.delete(key);
+      });
+    } else if (this === globalScope) {
+      // Nothing disposes signals created outside any owner (event handlers, timers), so the
+      // global scope only lists them until they are garbage-collected.
+      const ref = new WeakRef(source);
+      this.sources.set(key, ref);
+      this.collectedSources ??= new FinalizationRegistry(({ key: collectedKey, ref: collectedRef }) => {
+        if (this.sources.get(collectedKey) === collectedRef) {
+          this.sources.delete(collectedKey);
+        }
+      });
+      this.collectedSources.register(source, { key, ref });
+    } else {
+      this.sources.set(key, source);
+    }
   }
 
-  registerCleanup(cleanup: Cleanup): void {
-    this.scopeCleanups.add(cleanup);
+  snapshotSources(): ReadonlyMap<string, SignalSource<unknown>> {
+    const live = new Map<string, SignalSource<unknown>>();
+    for (const [key, entry] of this.sources) {
+      const source = entry instanceof WeakRef ? entry.deref() : entry;
+      if (source) {
+        live.set(key, source);
+      }
+    }
+    return live;
+  }
+
+  addHistoryLog(log: HistoryLog): void {
+    this.historyLogs.add(log);
+  }
+
+  removeHistoryLog(log: HistoryLog): void {
+    this.historyLogs.delete(log);
+  }
+
+  recordWrite(source: SignalSource<unknown>, previous: unknown, next: unknown): void {
+    for (const log of this.historyLogs) {
+      log.record(source, previous, next);
+    }
   }
 
   registerLayoutStarter(starter: () => void): void {
@@ -163,21 +625,9 @@ class Scope {
     }
     this.effectStarters.length = 0;
   }
-
-  dispose(): void {
-    for (const cleanup of this.scopeCleanups) {
-      cleanup();
-    }
-    this.scopeCleanups.clear();
-
-    for (const disposable of this.disposables) {
-      disposable.dispose();
-    }
-    this.disposables.clear();
-  }
 }
 
-const scopeStack: Scope[] = [];
+const ownerStack: Array<OwnerNode | null> = [];
 let globalScope: Scope | null = null;
 
 function isServerRuntime(): boolean {
@@ -187,23 +637,28 @@ function isServerRuntime(): boolean {
 function getGlobalScope(): Scope {
   if (!globalScope) {
     globalScope = new Scope({ autoStart: true });
+    inspectScope(globalScope, "root", "global");
   }
   return globalScope;
 }
 
-function withScope<T>(scope: Scope, fn: () => T): T {
-  scopeStack.push(scope);
+function withOwner<T>(owner: OwnerNode | null, fn: () => T): T {
+  ownerStack.push(owner);
   try {
     return fn();
   } finally {
-    scopeStack.pop();
+    ownerStack.pop();
   }
 }
 
-function activeScope(): Scope {
-  const scope = scopeStack[scopeStack.length - 1];
-  if (scope) {
-    return scope;
+function currentOwner(): OwnerNode | null {
+  return ownerStack[ownerStack.length - 1] ?? null;
+}
+
+function activeOwner(): OwnerNode {
+  const owner = currentOwner();
+  if (owner) {
+    return owner;
   }
 
   if (isServerRuntime()) {
@@ -215,12 +670,180 @@ function activeScope(): Scope {
   return getGlobalScope();
 }
 
+function activeScope(): Scope {
+  return activeOwner().scope;
+}
+
+const ERROR_HANDLER = Symbol("error-handler");
+
+type ErrorHandler = (error: unknown) => void;
+
+/**
+ * Routes an error to the nearest handler installed by `catchError` or
+ * `ErrorBoundary`, rethrowing when the owner chain has none.
+ */
+function handleError(owner: OwnerNode | null, error: unknown): void {
+  const found = owner?.lookupContext(ERROR_HANDLER);
+  if (!found) {
+    throw error;
+  }
+  (found.value as ErrorHandler)(error);
+}
+
+function createErrorOwner(parent: OwnerNode | null, handler: ErrorHandler): OwnerNode {
+  const owner = new OwnerNode(parent);
+  owner.provideContext(ERROR_HANDLER, (error: unknown) => {
+    try {
+      handler(error);
+    } catch (nextError) {
+      handleError(parent, nextError);
+    }
+  });
+  return owner;
+}
+
+/** Stack of the current signal write, without the `Error` header and this frame. */
+function captureWriteStack(): string | undefined {
+  return new Error().stack?.split("\n").slice(2).join("\n");
+}
+
+type InspectedNode = {
+  readonly kind: GraphNodeKind;
+  readonly name: string | undefined;
+  readonly owner: OwnerNode | null;
+  readonly tracker: DependencyTracker | null;
+  readonly describe: () => { value?: unknown; runs: number };
+};
+
+/**
+ * Live graph nodes keyed by their runtime object (source, computation, or scope), listed by
+ * inspection id in `inspectedRefs`. Both are weak, so inspection never keeps a node alive.
+ * Only populated while dev mode is on; read by {@link inspectGraph}.
+ */
+const inspectedNodes = new WeakMap<object, InspectedNode>();
+const inspectedRefs = new Map<number, WeakRef<object>>();
+const inspectedFinalizer = new FinalizationRegistry<number>((id) => {
+  inspectedRefs.delete(id);
+});
+const inspectionIds = new WeakMap<object, number>();
+let nextInspectionId = 0;
+
+function inspectionId(target: object): number {
+  let id = inspectionIds.get(target);
+  if (id === undefined) {
+    nextInspectionId += 1;
+    id = nextInspectionId;
+    inspectionIds.set(target, id);
+  }
+  return id;
+}
+
+function registerInspected(target: object, node: InspectedNode): void {
+  if (!runtimeConfig.devMode) {
+    return;
+  }
+  const id = inspectionId(target);
+  inspectedNodes.set(target, node);
+  inspectedRefs.set(id, new WeakRef(target));
+  inspectedFinalizer.register(target, id, target);
+}
+
+function unregisterInspected(target: object): void {
+  if (!inspectedNodes.delete(target)) {
+    return;
+  }
+  inspectedRefs.delete(inspectionId(target));
+  inspectedFinalizer.unregister(target);
+}
+
+/**
+ * Registers a signal-backed source for inspection until its owner is disposed. Sources of the
+ * global scope stay listed until they are garbage-collected.
+ */
+function inspectSignal<T>(
+  source: SignalSource<T> | AtomSource<T>,
+  owner: OwnerNode,
+  kind: "signal" | "store",
+  name = source.name,
+): void {
+  if (!runtimeConfig.devMode) {
+    return;
+  }
+  registerInspected(source, {
+    kind,
+    name,
+    owner,
+    tracker: null,
+    describe: () => ({ value: source.peek(), runs: source.writes }),
+  });
+  if (owner !== globalScope) {
+    owner.registerCleanup(() => {
+      unregisterInspected(source);
+    });
+  }
+}
+
+/** Registers a scope for inspection until it is disposed. */
+function inspectScope(
+  scope: Scope,
+  kind: "component" | "root",
+  name: string | undefined,
+  tracker: DependencyTracker | null = null,
+): void {
+  if (!runtimeConfig.devMode) {
+    return;
+  }
+  registerInspected(scope, {
+    kind,
+    name,
+    owner: scope.parent,
+    tracker,
+    describe: () => ({ runs: tracker?.runs ?? 0 }),
+  });
+  scope.registerCleanup(() => {
+    unregisterInspected(scope);
+  });
+}
+
 class SignalSource<T> implements Subscribable {
+  readonly name: string | undefined;
+  writes = 0;
+  /** Key within the scope that snapshots this signal, if any. */
+  snapshotKey: string | null = null;
+  private snapshotScope: Scope | null = null;
   private readonly signalAtom: PrimitiveAtom<T>;
-  private readonly subscribers = new Set<Subscriber>();
+  private readonly observers = new Set<Observer>();
+  private readonly equals: EqualityCheck<T> | undefined;
 
-  constructor(private readonly store: Store, initialValue: T) {
-    this.signalAtom = atom(initialValue);
+  constructor(
+    private readonly store: Store,
+    initialValue: T,
+    options: SignalOptions<T> = {},
+  ) {
+    // Writes made directly through the Jotai store (hooks, devtools) land here too, so they
+    // are compared and propagated exactly like `set`.
+    const signalAtom: PrimitiveAtom<T> = atom(initialValue, (get, set, nextValue: SetStateAction<T>) => {
+      const previous = get(signalAtom);
+      const resolvedValue =
+        typeof nextValue === "function"
+          ? (nextValue as (prev: T) => T)(previous)
+          : nextValue;
+
+      if (!isEqual(this.equals, previous, resolvedValue)) {
+        set(signalAtom, resolvedValue);
+        this.notify(previous, resolvedValue);
+      }
+    });
+    this.signalAtom = signalAtom;
+    this.name = options.name;
+    this.equals = options.equals;
+    if (options.name) {
+      this.signalAtom.debugLabel = options.name;
+    }
+  }
+
+  get label(): string {
+    return describeComputation("signal", this.name);
   }
 
   get(): T {
@@ -233,102 +856,293 @@ class SignalSource<T> implements Subscribable {
   }
 
   set(nextValue: T | ((prev: T) => T)): T {
-    const previous = this.store.get(this.signalAtom);
-    const resolvedValue =
-      typeof nextValue === "function"
-        ? (nextValue as (prev: T) => T)(previous)
-        : nextValue;
+    this.store.set(this.signalAtom, nextValue);
+    return this.store.get(this.signalAtom);
+  }
 
-    this.store.set(this.signalAtom, resolvedValue);
+  private notify(previous: T, resolvedValue: T): void {
+    this.writes += 1;
+    countProfiled("signal", this.label);
+    const cause =
+      tracedTrackerCount > 0
+        ? { source: this.label, previous, next: resolvedValue, stack: captureWriteStack() }
+        : undefined;
+    runBatched(() => {
+      this.snapshotScope?.recordWrite(this as SignalSource<unknown>, previous, resolvedValue);
+      markObservers(this.observers, DIRTY, cause);
+    });
+  }
 
-    if (!Object.is(previous, resolvedValue)) {
-      for (const subscriber of this.subscribers) {
-        notifySubscriber(subscriber);
-      }
-    }
+  refresh(): void {}
 
-    return resolvedValue;
+  adopt(scope: Scope, key: string): void {
+    this.snapshotScope = scope;
+    this.snapshotKey = key;
   }
 
-  subscribe(callback: Subscriber): Unsubscribe {
-    this.subscribers.add(callback);
+  subscribe(observer: Observer): Unsubscribe {
+    this.observers.add(observer);
     return () => {
-      this.subscribers.delete(callback);
+      this.observers.delete(observer);
     };
   }
 }
 
-class MemoSource<T> implements Subscribable {
-  private readonly tracker: DependencyTracker;
-  private readonly subscribers = new Set<Subscriber>();
-  private hasValue = false;
-  private value!: T;
-  private computing = false;
+/** Graph source for an existing Jotai atom; follows every store change through `store.sub`. */
+class AtomSource<T> implements Subscribable {
+  readonly name: string | undefined;
+  writes = 0;
+  private readonly observers = new Set<Observer>();
+  private readonly unsubscribe: Unsubscribe;
+  private readonly equals: EqualityCheck<T> | undefined;
+  /** Last accepted value; kept when the store emits a value `equals` treats as unchanged. */
+  private value: T;
 
-  constructor(private readonly compute: () => T) {
-    this.tracker = new DependencyTracker(() => {
-      this.recompute();
+  constructor(
+    private readonly store: Store,
+    private readonly sourceAtom: Atom<T>,
+    options: { name?: string; equals?: EqualityCheck<T> } = {},
+  ) {
+    this.name = options.name ?? sourceAtom.debugLabel;
+    this.equals = options.equals;
+    this.value = store.get(sourceAtom);
+    this.unsubscribe = store.sub(sourceAtom, () => {
+      this.notify();
     });
   }
 
+  get label(): string {
+    return describeComputation("atom", this.name);
+  }
+
   get(): T {
     trackDependency(this);
-    if (!this.hasValue) {
-      this.recompute();
-    }
     return this.value;
   }
 
-  subscribe(callback: Subscriber): Unsubscribe {
-    this.subscribers.add(callback);
-    if (!this.hasValue) {
-      this.recompute();
-    }
-    return () => {
-      this.subscribers.delete(callback);
-    };
+  peek(): T {
+    return this.value;
+  }
+
+  refresh(): void {}
+
+  subscribe(observer: Observer): Unsubscribe {
+    this.observers.add(observer);
+    return () => {
+      this.observers.delete(observer);
+    };
   }
 
   dispose(): void {
+    this.unsubscribe();
+    this.observers.clear();
+  }
+
+  private notify(): void {
+    const previous = this.value;
+    const next = this.store.get(this.sourceAtom);
+    if (isEqual(this.equals, previous, next)) {
+      return;
+    }
+    this.value = next;
+
+    this.writes += 1;
+    countProfiled("signal", this.label);
+    const cause =
+      tracedTrackerCount > 0
+        ? { source: this.label, previous, next, stack: captureWriteStack() }
+        : undefined;
+    runBatched(() => {
+      markObservers(this.observers, DIRTY, cause);
+    });
+  }
+}
+
+class MemoSource<T> extends OwnerNode implements Subscribable {
+  readonly name: string | undefined;
+  private readonly tracker: DependencyTracker;
+  private readonly observers = new Set<Observer>();
+  private readonly equals: EqualityCheck<T> | undefined;
+  private hasValue = false;
+  private value!: T;
+  private error: { value: unknown } | null = null;
+  private updating = false;
+  private detached = false;
+
+  constructor(
+    private readonly compute: () => T,
+    parent: OwnerNode | null,
+    options: MemoOptions<T> = {},
+  ) {
+    super(parent);
+    this.name = options.name;
+    this.equals = options.equals;
+    this.tracker = new DependencyTracker(
+      () => {
+        this.recompute();
+      },
+      {
+        onStale: () => {
+          markObservers(this.observers, CHECK);
+        },
+        label: describeComputation("memo", options.name),
+      },
+    );
+    registerInspected(this, {
+      kind: "memo",
+      name: options.name,
+      owner: parent,
+      tracker: this.tracker,
+      describe: () => ({ value: this.hasValue ? this.value : undefined, runs: this.tracker.runs }),
+    });
+  }
+
+  get(): T {
+    const tracked = currentCollector() !== undefined;
+    trackDependency(this);
+    this.refresh();
+    // An untracked read of an unobserved memo (e.g. from an event handler) must not leave it
+    // subscribed to its sources; it recomputes on the next read instead.
+    if (!tracked && this.observers.size === 0) {
+      this.detach();
+    }
+    if (this.error) {
+      throw this.error.value;
+    }
+    return this.value;
+  }
+
+  get label(): string {
+    return this.tracker.label;
+  }
+
+  /**
+   * Lazily recomputes when a source changed since the last evaluation.
+   * Observers were already marked by the push phase, so a new value only
+   * upgrades their pending check to dirty.
+   */
+  refresh(): void {
+    if (this.updating) {
+      throw this.cycleError();
+    }
+
+    this.updating = true;
+    if (runtimeConfig.devMode) {
+      computingStack.push(this);
+    }
+    try {
+      const dirty = this.tracker.refresh();
+      if (dirty || !this.hasValue || this.detached) {
+        this.recompute();
+      }
+    } finally {
+      this.updating = false;
+      if (runtimeConfig.devMode) {
+        computingStack.splice(computingStack.lastIndexOf(this), 1);
+      }
+    }
+  }
+
+  subscribe(observer: Observer): Unsubscribe {
+    this.observers.add(observer);
+    return () => {
+      this.observers.delete(observer);
+      if (this.observers.size === 0) {
+        this.detach();
+      }
+    };
+  }
+
+  private cycleError(): Error {
+    const start = computingStack.lastIndexOf(this);
+    if (start < 0) {
+      return new Error(`Reactive cycle detected: ${this.label} depends on itself.`);
+    }
+    const chain = [...computingStack.slice(start), this].map((node) => node.label);
+    return new Error(`Reactive cycle detected: ${chain.join(" -> ")}.`);
+  }
+
+  /**
+   * Drops source subscriptions and owned children once nothing observes the memo,
+   * so unobserved memos in long-lived scopes do not leak. The next read recomputes,
+   * and re-attaches only when a computation tracks it.
+   */
+  private detach(): void {
+    if (this.disposed || this.updating) {
+      return;
+    }
+    this.detached = true;
     this.tracker.dispose();
-    this.subscribers.clear();
+    this.disposeOwned();
   }
 
-  private recompute(): void {
-    if (this.computing) {
+  dispose(): void {
+    if (this.disposed) {
       return;
     }
+    this.disposed = true;
+    this.disposeOwned();
+    this.tracker.dispose();
+    this.observers.clear();
+    unregisterInspected(this);
+  }
 
-    this.computing = true;
+  private recompute(): void {
+    this.detached = false;
+    const previous = this.error ? this.error.value : this.hasValue ? this.value : undefined;
+    const finishProfiling = startProfiling("memo", this.label);
+    let changed: boolean;
     try {
-      const nextValue = this.tracker.collect(this.compute);
-      const changed = !this.hasValue || !Object.is(this.value, nextValue);
+      this.disposeOwned();
+      const nextValue = withOwner(this, () => this.tracker.collect(this.compute));
+      changed = Boolean(this.error) || !this.hasValue || !isEqual(this.equals, this.value, nextValue);
       this.value = nextValue;
       this.hasValue = true;
-
-      if (changed) {
-        for (const subscriber of this.subscribers) {
-          notifySubscriber(subscriber);
-        }
+      this.error = null;
+    } catch (error) {
+      // Kept until the next successful run and rethrown to every reader.
+      this.error = { value: error };
+      changed = true;
+    }
+    finishProfiling?.();
+
+    if (changed) {
+      const cause =
+        tracedTrackerCount > 0
+          ? { source: this.label, previous, next: this.error ? this.error.value : this.value }
+          : undefined;
+      for (const observer of this.observers) {
+        observer.markChanged(cause);
       }
-    } finally {
-      this.computing = false;
     }
   }
 }
 
-let activeEffect: EffectComputation | null = null;
-
-class EffectComputation {
+class EffectComputation extends OwnerNode {
   private readonly tracker: DependencyTracker;
   private scheduled = false;
   private running = false;
-  private disposed = false;
-  private cleanups: Cleanup[] = [];
 
-  constructor(private readonly effect: () => void | Cleanup) {
-    this.tracker = new DependencyTracker(() => {
-      this.schedule();
+  constructor(
+    private readonly effect: () => void | Cleanup,
+    parent: OwnerNode | null,
+    priority: QueuePriority,
+    private readonly kind: "computed" | "layoutEffect" | "effect",
+    name: string | undefined,
+  ) {
+    super(parent);
+    this.tracker = new DependencyTracker(
+      () => {
+        this.schedule();
+      },
+      { priority, label: describeComputation(kind === "layoutEffect" ? "layout effect" : kind, name), owner: this },
+    );
+    registerInspected(this, {
+      kind,
+      name,
+      owner: parent,
+      tracker: this.tracker,
+      describe: () => ({ runs: this.tracker.runs }),
     });
   }
 
@@ -336,17 +1150,14 @@ class EffectComputation {
     this.schedule();
   }
 
-  registerCleanup(cleanup: Cleanup): void {
-    this.cleanups.push(cleanup);
-  }
-
   dispose(): void {
     if (this.disposed) {
       return;
     }
     this.disposed = true;
-    this.runCleanups();
+    this.disposeOwned();
     this.tracker.dispose();
+    unregisterInspected(this);
   }
 
   private schedule(): void {
@@ -361,38 +1172,42 @@ class EffectComputation {
   }
 
   private execute(): void {
-    if (this.disposed) {
-      return;
-    }
-
-    this.running = true;
-    this.scheduled = false;
-    this.runCleanups();
-
-    const previousEffect = activeEffect;
-    activeEffect = this;
+    let runs = 0;
+    do {
+      if (this.disposed) {
+        return;
+      }
 
-    try {
-      const maybeCleanup = this.tracker.collect(this.effect);
-      if (typeof maybeCleanup === "function") {
-        this.cleanups.push(maybeCleanup);
+      runs += 1;
+      if (runs > runtimeConfig.maxUpdateDepth) {
+        this.scheduled = false;
+        handleError(
+          this,
+          new Error(
+            `Maximum update depth exceeded: ${this.tracker.label} re-ran more than ${runtimeConfig.maxUpdateDepth} times. ` +
+              "It is likely writing to a signal it depends on.",
+          ),
+        );
+        return;
       }
-    } finally {
-      activeEffect = previousEffect;
-      this.running = false;
-    }
 
-    if (this.scheduled) {
-      this.execute();
-    }
-  }
+      this.running = true;
+      this.scheduled = false;
+      this.disposeOwned();
 
-  private runCleanups(): void {
-    const pending = this.cleanups;
-    this.cleanups = [];
-    for (const cleanup of pending) {
-      cleanup();
-    }
+      const finishProfiling = startProfiling(this.kind, this.tracker.label);
+      try {
+        const maybeCleanup = withOwner(this, () => this.tracker.collect(this.effect));
+        if (typeof maybeCleanup === "function") {
+          this.registerCleanup(maybeCleanup);
+        }
+      } catch (error) {
+        handleError(this, error);
+      } finally {
+        this.running = false;
+        finishProfiling?.();
+      }
+    } while (this.scheduled);
   }
 }
 
@@ -496,6 +1311,23 @@ export type ResourceControls<T> = {
   refetch: () => void;
 };
 
+/**
+ * Second argument of resource fetchers (the only one without a source).
+ *
+ * @example
+ * ```ts
+ * const [user] = createResource(async ({ refetching, track }) => fetchUser(track(userId), { fresh: refetching }))
+ * ```
+ */
+export type ResourceFetcherInfo<T> = {
+  /** Latest resolved value, if any. */
+  value: T | undefined;
+  /** `true` when the fetch was started by `refetch()`. */
+  refetching: boolean;
+  /** Tracks the reads of `read` for this fetch, even after an `await`; a change refetches. */
+  track: Track;
+};
+
 /**
  * Options for async resources.
  *
@@ -506,12 +1338,194 @@ export type ResourceControls<T> = {
  */
 export type ResourceOptions<T> = {
   initialValue?: T;
+  /** Debug name, used by profilers. */
+  name?: string;
+  /** Jotai store for atom sources. Defaults to the store of the current scope. */
+  store?: Store;
+};
+
+/**
+ * Equality comparator used to decide whether a write notifies dependents.
+ * `false` notifies on every write, even when the value is identical.
+ *
+ * @example
+ * ```ts
+ * const [list, setList] = createSignal<string[]>([], { equals: shallowEqual })
+ * ```
+ */
+export type EqualityCheck<T> = false | ((previous: T, next: T) => boolean);
+
+/**
+ * Options for {@link createSignal}.
+ *
+ * @example
+ * ```ts
+ * const [user, setUser] = createSignal(initialUser, { equals: deepEqual, name: "user" })
+ * ```
+ */
+export type SignalOptions<T> = {
+  /** Comparator deciding whether a write is a change. Defaults to `Object.is`. */
+  equals?: EqualityCheck<T>;
+  /** Debug name, also applied as the underlying atom's `debugLabel`. */
+  name?: string;
+};
+
+/**
+ * Options for {@link createMemo}.
+ *
+ * @example
+ * ```ts
+ * const ids = createMemo(() => rows().map((row) => row.id), { equals: shallowEqual })
+ * ```
+ */
+export type MemoOptions<T> = {
+  /** Comparator deciding whether a recomputed value notifies dependents. Defaults to `Object.is`. */
+  equals?: EqualityCheck<T>;
+  /** Debug name for the memo. */
+  name?: string;
+};
+
+/**
+ * Options for {@link createEffect}, {@link createLayoutEffect}, {@link createRenderEffect},
+ * and {@link createComputed}.
+ *
+ * @example
+ * ```ts
+ * createEffect(() => save(draft()), { name: "autosave" })
+ * ```
+ */
+export type EffectOptions = {
+  /** Debug name, used in diagnostics such as update-loop errors. */
+  name?: string;
 };
 
+/**
+ * Options for {@link createStore} and {@link createMutable}.
+ * `equals` compares whole root snapshots before and after a write.
+ *
+ * @example
+ * ```ts
+ * const [form, setForm] = createStore({ email: "" }, { equals: shallowEqual, name: "form" })
+ * ```
+ */
+export type StoreOptions<T> = SignalOptions<T>;
+
+/**
+ * Compares arrays item-by-item and plain objects key-by-key with `Object.is`.
+ *
+ * @param left First value.
+ * @param right Second value.
+ * @returns `true` when both values have identical top-level entries.
+ *
+ * @example
+ * ```ts
+ * shallowEqual({ a: 1 }, { a: 1 }) // true
+ * ```
+ */
+export function shallowEqual<T>(left: T, right: T): boolean {
+  if (Object.is(left, right)) {
+    return true;
+  }
+
+  if (Array.isArray(left) && Array.isArray(right)) {
+    return left.length === right.length && left.every((item, index) => Object.is(item, right[index]));
+  }
+
+  if (!isObjectLike(left) || !isObjectLike(right) || Array.isArray(left) || Array.isArray(right)) {
+    return false;
+  }
+
+  const leftKeys = Reflect.ownKeys(left);
+  if (leftKeys.length !== Reflect.ownKeys(right).length) {
+    return false;
+  }
+  return leftKeys.every(
+    (key) => Object.prototype.hasOwnProperty.call(right, key) && Object.is(left[key], right[key]),
+  );
+}
+
+/**
+ * Recursively compares arrays, plain objects, `Date`, `Map` and `Set` values. Set members
+ * are matched deeply; Map keys are matched by identity and their values deeply.
+ *
+ * @param left First value.
+ * @param right Second value.
+ * @returns `true` when both values are structurally equal.
+ *
+ * @example
+ * ```ts
+ * deepEqual({ tags: ["a"] }, { tags: ["a"] }) // true
+ * ```
+ */
+export function deepEqual<T>(left: T, right: T): boolean {
+  if (Object.is(left, right)) {
+    return true;
+  }
+
+  if (!isObjectLike(left) || !isObjectLike(right)) {
+    return false;
+  }
+
+  if (Object.getPrototypeOf(left) !== Object.getPrototypeOf(right)) {
+    return false;
+  }
+
+  if (left instanceof Date) {
+    return left.getTime() === (right as unknown as Date).getTime();
+  }
+
+  if (left instanceof Map) {
+    const rightMap = right as unknown as Map<unknown, unknown>;
+    if (left.size !== rightMap.size) {
+      return false;
+    }
+    for (const [key, value] of left) {
+      if (!rightMap.has(key) || !deepEqual(value, rightMap.get(key))) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  if (left instanceof Set) {
+    const rightSet = right as unknown as Set<unknown>;
+    if (left.size !== rightSet.size) {
+      return false;
+    }
+    // Members present by identity match themselves; the rest each pair with one deeply equal member.
+    const unmatched = [...rightSet].filter((value) => !left.has(value));
+    for (const value of left) {
+      if (rightSet.has(value)) {
+        continue;
+      }
+      const index = unmatched.findIndex((candidate) => deepEqual(value, candidate));
+      if (index < 0) {
+        return false;
+      }
+      unmatched.splice(index, 1);
+    }
+    return true;
+  }
+
+  if (Array.isArray(left)) {
+    const rightArray = right as unknown as unknown[];
+    return left.length === rightArray.length && left.every((item, index) => deepEqual(item, rightArray[index]));
+  }
+
+  const leftKeys = Reflect.ownKeys(left);
+  if (leftKeys.length !== Reflect.ownKeys(right).length) {
+    return false;
+  }
+  return leftKeys.every(
+    (key) => Object.prototype.hasOwnProperty.call(right, key) && deepEqual(left[key], right[key]),
+  );
+}
+
 /**
  * Creates a writable signal.
  *
  * @param initialValue Initial value stored in the signal.
+ * @param options Optional `equals` comparator and debug `name`.
  * @returns Tuple of `[getter, setter]`.
  *
  * @example
@@ -520,9 +1534,25 @@ export type ResourceOptions<T> = {
  * setCount((n) => n + 1)
  * ```
  */
-export function createSignal<T>(initialValue: T): [Accessor<T>, Setter<T>] {
-  const scope = activeScope();
-  const source = new SignalSource(scope.store, initialValue);
+export function createSignal<T>(
+  initialValue: T,
+  options?: SignalOptions<T>,
+): [Accessor<T>, Setter<T>] {
+  const owner = activeOwner();
+  const source = new SignalSource(owner.scope.store, initialValue, options);
+  inspectSignal(source, owner, "signal");
+  owner.scope.adoptSource(source as SignalSource<unknown>, owner);
+  return [
+    () => source.get(),
+    (nextValue) => source.set(nextValue),
+  ];
+}
+
+/** Signal for library bookkeeping (pending flags, resource state), left out of snapshots and history. */
+function createInternalSignal<T>(initialValue: T, options?: SignalOptions<T>): [Accessor<T>, Setter<T>] {
+  const owner = activeOwner();
+  const source = new SignalSource(owner.scope.store, initialValue, options);
+  inspectSignal(source, owner, "signal");
   return [
     () => source.get(),
     (nextValue) => source.set(nextValue),
@@ -592,79 +1622,255 @@ export const fromSignal = fromSolidSignal;
 export const toSignal = toSolidSignal;
 
 /**
- * Creates a cached derived accessor.
- *
- * @param compute Derivation function. Reads inside this function become dependencies.
- * @returns Read-only accessor for the derived value.
+ * Options for {@link fromAtom}.
  *
  * @example
  * ```ts
- * const total = createMemo(() => items().length)
+ * const options: FromAtomOptions<User> = { store: getDefaultStore(), equals: (a, b) => a.id === b.id }
  * ```
  */
-export function createMemo<T>(compute: () => T): Accessor<T> {
-  const scope = activeScope();
-  const source = new MemoSource(compute);
-  scope.register(source);
-  return () => source.get();
-}
+export type FromAtomOptions<T = unknown> = {
+  /** Jotai store holding the atom. Defaults to the store of the current scope. */
+  store?: Store;
+  /** Comparator deciding whether a new atom value is a change. Defaults to `Object.is`. */
+  equals?: EqualityCheck<T>;
+  /** Debug name for traces and the graph. Defaults to the atom's `debugLabel`. */
+  name?: string;
+};
 
 /**
- * Defers propagation of a source accessor value.
+ * Binds an existing Jotai atom into the reactive graph. Reads are tracked, and every change
+ * in the store (from Jotai hooks, other stores' users, or this setter) notifies dependents.
+ * The store subscription ends when the current owner is disposed.
  *
- * @param source Source accessor to defer.
- * @param options Optional deferral settings.
- * @returns Accessor containing the deferred value.
+ * Writable atoms, including write-only ones, return `[accessor, write]`, where `write`
+ * forwards its arguments to the atom's `write` function inside a batch. Read-only and derived
+ * atoms return just the accessor. Async atoms yield their promise; read it with `use(...)`.
+ *
+ * @param sourceAtom Jotai atom to bind.
+ * @param options Optional `store`, `equals` and debug `name`.
+ * @returns `[accessor, write]` for writable atoms, otherwise an accessor.
  *
  * @example
  * ```ts
- * const deferredQuery = createDeferred(query, { timeoutMs: 50 })
+ * const [count, setCount] = fromAtom(countAtom, { store: getDefaultStore() })
+ * const doubled = fromAtom(doubledAtom)
  * ```
  */
-export function createDeferred<T>(
-  source: Accessor<T>,
-  options: {
-    timeoutMs?: number;
-    equals?: (left: T, right: T) => boolean;
-  } = {},
-): Accessor<T> {
-  const equals = options.equals ?? Object.is;
-  const [deferred, setDeferred] = createSignal(source());
-
-  createEffect(() => {
-    const nextValue = source();
-    if (equals(deferred(), nextValue)) {
-      return;
-    }
+export function fromAtom<Value, Args extends unknown[], Result>(
+  sourceAtom: WritableAtom<Value, Args, Result>,
+  options?: FromAtomOptions<Value>,
+): [Accessor<Value>, (...args: Args) => Result];
+export function fromAtom<Value>(sourceAtom: Atom<Value>, options?: FromAtomOptions<Value>): Accessor<Value>;
+export function fromAtom<Value>(
+  sourceAtom: Atom<Value> | WritableAtom<Value, unknown[], unknown>,
+  options: FromAtomOptions<Value> = {},
+): Accessor<Value> | [Accessor<Value>, (...args: unknown[]) => unknown] {
+  const owner = activeOwner();
+  const store = options.store ?? owner.scope.store;
+  const source = new AtomSource(store, sourceAtom, { name: options.name, equals: options.equals });
+  owner.registerCleanup(() => {
+    source.dispose();
+  });
+  inspectSignal(source, owner, "signal");
 
-    if (options.timeoutMs === undefined || options.timeoutMs <= 0) {
-      queueMicrotask(() => {
-        setDeferred(nextValue);
-      });
-      return;
-    }
+  const read: Accessor<Value> = () => source.get();
+  if (!("write" in sourceAtom)) {
+    return read;
+  }
 
-    const timer = setTimeout(() => {
-      setDeferred(nextValue);
-    }, options.timeoutMs);
+  const writableAtom = sourceAtom;
+  const write = (...args: unknown[]): unknown => runBatched(() => store.set(writableAtom, ...args));
+  return [read, write];
+}
 
-    onCleanup(() => {
-      clearTimeout(timer);
+/**
+ * Builds an atom whose value is `accessor()`, refreshed in every store that mounts it.
+ * On mount a small root watches the accessor and bumps a version atom on each change
+ * (and once right away, to catch changes between the first read and the subscription).
+ */
+function accessorAtom<T>(accessor: Accessor<T>): Atom<T> {
+  const versionAtom = atom(0);
+  versionAtom.onMount = (setVersion) =>
+    createRoot((dispose) => {
+      createComputed(() => {
+        accessor();
+        untrack(() => setVersion((version) => version + 1));
+      });
+      return dispose;
     });
-  });
 
-  return deferred;
+  return atom((get) => {
+    get(versionAtom);
+    return untrack(accessor);
+  });
 }
 
 /**
- * Creates a unique id string for the current scope.
+ * Exposes any accessor (signal, memo, store field read, ...) as a read-only Jotai atom, so
+ * `useAtomValue`, `store.sub` and Jotai utilities can consume it. The atom works with any
+ * store; it follows the accessor while mounted (subscribed) in that store.
  *
- * @param prefix Prefix for the generated id.
- * @returns Unique id string.
+ * @param accessor Accessor to expose.
+ * @returns Read-only Jotai atom holding the accessor's value.
  *
  * @example
- * ```ts
- * const inputId = createUniqueId("field-")
+ * ```tsx
+ * const doubledAtom = toAtom(doubled)
+ * const filterAtom = toAtom(() => state.filter)
+ * const Plain = () => <span>{useAtomValue(doubledAtom)}</span>
+ * ```
+ */
+export function toAtom<T>(accessor: Accessor<T>): Atom<T> {
+  return accessorAtom(accessor);
+}
+
+/**
+ * Exposes a signal pair as a writable Jotai atom. Jotai writes (`useSetAtom`, `store.set`)
+ * go through the signal's setter, including updater functions.
+ *
+ * @param signal `[accessor, setter]` pair, e.g. from {@link createSignal}.
+ * @returns Primitive-style Jotai atom backed by the signal.
+ *
+ * @example
+ * ```tsx
+ * const countAtom = toWritableAtom(createSignal(0))
+ * const [count, setCount] = useAtom(countAtom)
+ * ```
+ */
+export function toWritableAtom<T>(signal: readonly [Accessor<T>, Setter<T>]): PrimitiveAtom<T> {
+  const [read, write] = signal;
+  const readAtom = accessorAtom(read);
+  return atom(
+    (get) => get(readAtom),
+    (_get, _set, nextValue: SetStateAction<T>) => {
+      write(nextValue);
+    },
+  );
+}
+
+/**
+ * Creates a cached derived accessor.
+ *
+ * @param compute Derivation function. Reads inside this function become dependencies.
+ * @param options Optional `equals` comparator and debug `name`.
+ * @returns Read-only accessor for the derived value.
+ *
+ * @example
+ * ```ts
+ * const total = createMemo(() => items().length)
+ * ```
+ */
+export function createMemo<T>(compute: () => T, options?: MemoOptions<T>): Accessor<T> {
+  const owner = activeOwner();
+  const source = new MemoSource(compute, owner, options);
+  owner.register(source);
+  return () => source.get();
+}
+
+function scheduleIdle(callback: () => void, timeoutMs?: number): Cleanup {
+  if (typeof requestIdleCallback === "function") {
+    const handle = requestIdleCallback(callback, timeoutMs === undefined ? undefined : { timeout: timeoutMs });
+    return () => {
+      cancelIdleCallback(handle);
+    };
+  }
+
+  const timer = setTimeout(callback, 0);
+  return () => {
+    clearTimeout(timer);
+  };
+}
+
+/**
+ * Defers propagation of a source accessor value.
+ *
+ * By default `timeoutMs` is a fixed delay (a microtask when omitted). With `idle: true`
+ * the value updates as soon as the browser is idle, and `timeoutMs` is the longest it
+ * may lag behind the source, as in Solid. Changes made while an update is pending join it.
+ * Without `requestIdleCallback` (Node, jsdom) idle updates run on the next macrotask.
+ *
+ * @param source Source accessor to defer.
+ * @param options Optional deferral settings.
+ * @returns Accessor containing the deferred value.
+ *
+ * @example
+ * ```ts
+ * const deferredQuery = createDeferred(query, { timeoutMs: 50 })
+ * const filterText = createDeferred(input, { idle: true, timeoutMs: 200 })
+ * ```
+ */
+export function createDeferred<T>(
+  source: Accessor<T>,
+  options: {
+    timeoutMs?: number;
+    idle?: boolean;
+    equals?: (left: T, right: T) => boolean;
+  } = {},
+): Accessor<T> {
+  const equals = options.equals ?? Object.is;
+  const [deferred, setDeferred] = createInternalSignal(source());
+
+  if (options.idle) {
+    let latest = deferred();
+    let cancel: Cleanup | null = null;
+
+    createEffect(() => {
+      latest = source();
+      if (cancel || equals(untrack(deferred), latest)) {
+        return;
+      }
+
+      cancel = scheduleIdle(() => {
+        cancel = null;
+        const nextValue = latest;
+        if (!equals(deferred(), nextValue)) {
+          setDeferred(() => nextValue);
+        }
+      }, options.timeoutMs);
+    });
+
+    onCleanup(() => {
+      cancel?.();
+    });
+
+    return deferred;
+  }
+
+  createEffect(() => {
+    const nextValue = source();
+    if (equals(deferred(), nextValue)) {
+      return;
+    }
+
+    if (options.timeoutMs === undefined || options.timeoutMs <= 0) {
+      queueMicrotask(() => {
+        setDeferred(nextValue);
+      });
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      setDeferred(nextValue);
+    }, options.timeoutMs);
+
+    onCleanup(() => {
+      clearTimeout(timer);
+    });
+  });
+
+  return deferred;
+}
+
+/**
+ * Creates a unique id string for the current scope.
+ *
+ * @param prefix Prefix for the generated id.
+ * @returns Unique id string.
+ *
+ * @example
+ * ```ts
+ * const inputId = createUniqueId("field-")
  * ```
  */
 export function createUniqueId(prefix = "uid-"): string {
@@ -681,10 +1887,211 @@ export function createUniqueId(prefix = "uid-"): string {
  */
 export const memo = createMemo;
 
+/**
+ * Keyed factory returned by {@link createSignalFamily} and {@link createMemoFamily}.
+ * Calling it with equal keys returns the same member.
+ *
+ * @example
+ * ```ts
+ * const [todo, setTodo] = todoFamily(id)
+ * todoFamily.remove(id)
+ * ```
+ */
+export type Family<K, V> = ((key: K) => V) & {
+  /** Drops the member for `key`; the next call creates a fresh one. */
+  remove(key: K): void;
+  /**
+   * Sets a policy run against existing members now and on every later call; members it
+   * returns `true` for are removed. `null` clears the policy.
+   */
+  setShouldRemove(shouldRemove: ((createdAt: number, key: K) => boolean) | null): void;
+  /** Keys of the current members, oldest first. */
+  keys(): K[];
+};
+
+/**
+ * Options shared by {@link createSignalFamily} and {@link createMemoFamily}.
+ *
+ * @example
+ * ```ts
+ * const options: FamilyOptions<{ id: string }> = { areEqual: (a, b) => a.id === b.id }
+ * ```
+ */
+export type FamilyOptions<K> = {
+  /** Key comparison. Defaults to `Map` identity (`SameValueZero`). */
+  areEqual?: (left: K, right: K) => boolean;
+};
+
+type FamilyMember<K, V> = {
+  key: K;
+  value: V;
+  owner: OwnerNode;
+  createdAt: number;
+  /** Owners that read this member; once the last one is disposed it is evicted. */
+  readers: Set<OwnerNode>;
+};
+
+class KeyedFamily<K, V> {
+  private readonly members = new Map<K, FamilyMember<K, V>>();
+  private shouldRemove: ((createdAt: number, key: K) => boolean) | null = null;
+
+  constructor(
+    private readonly owner: OwnerNode,
+    private readonly create: (key: K) => V,
+    private readonly areEqual: ((left: K, right: K) => boolean) | undefined,
+  ) {
+    owner.registerCleanup(() => {
+      for (const member of Array.from(this.members.values())) {
+        this.evict(member);
+      }
+    });
+  }
+
+  get(key: K): V {
+    let member = this.find(key);
+    if (member && this.shouldRemove?.(member.createdAt, member.key)) {
+      this.evict(member);
+      member = undefined;
+    }
+    if (!member) {
+      member = this.add(key);
+    }
+
+    const reader = currentOwner();
+    if (reader && reader !== this.owner && !member.readers.has(reader)) {
+      const tracked = member;
+      tracked.readers.add(reader);
+      reader.registerCleanup(() => {
+        tracked.readers.delete(reader);
+        if (tracked.readers.size === 0) {
+          // Deferred so a re-running effect that reads the member again keeps it.
+          queueMicrotask(() => {
+            if (tracked.readers.size === 0) {
+              this.evict(tracked);
+            }
+          });
+        }
+      });
+    }
+
+    return member.value;
+  }
+
+  remove(key: K): void {
+    const member = this.find(key);
+    if (member) {
+      this.evict(member);
+    }
+  }
+
+  setShouldRemove(shouldRemove: ((createdAt: number, key: K) => boolean) | null): void {
+    this.shouldRemove = shouldRemove;
+    if (!shouldRemove) {
+      return;
+    }
+    for (const member of Array.from(this.members.values())) {
+      if (shouldRemove(member.createdAt, member.key)) {
+        this.evict(member);
+      }
+    }
+  }
+
+  keys(): K[] {
+    return Array.from(this.members.keys());
+  }
+
+  private find(key: K): FamilyMember<K, V> | undefined {
+    if (!this.areEqual) {
+      return this.members.get(key);
+    }
+    for (const member of this.members.values()) {
+      if (this.areEqual(member.key, key)) {
+        return member;
+      }
+    }
+    return undefined;
+  }
+
+  private add(key: K): FamilyMember<K, V> {
+    // Members own their primitives but are not registered with the family owner, so evicted
+    // members do not accumulate there; the family disposes the live ones itself.
+    const owner = new OwnerNode(this.owner);
+    const value = withOwner(owner, () => untrack(() => this.create(key)));
+    const member: FamilyMember<K, V> = { key, value, owner, createdAt: Date.now(), readers: new Set() };
+    this.members.set(key, member);
+    return member;
+  }
+
+  private evict(member: FamilyMember<K, V>): void {
+    if (this.members.get(member.key) !== member) {
+      return;
+    }
+    this.members.delete(member.key);
+    member.owner.dispose();
+  }
+}
+
+function createFamily<K, V>(create: (key: K) => V, options: FamilyOptions<K>): Family<K, V> {
+  const family = new KeyedFamily(activeOwner(), create, options.areEqual);
+  return Object.assign((key: K) => family.get(key), {
+    remove: (key: K) => family.remove(key),
+    setShouldRemove: (shouldRemove: ((createdAt: number, key: K) => boolean) | null) =>
+      family.setShouldRemove(shouldRemove),
+    keys: () => family.keys(),
+  });
+}
+
+/**
+ * Creates a keyed signal factory, like Jotai's `atomFamily`: equal keys share one signal.
+ * A member is evicted once every owner (effect, memo, component, root) that read it has been
+ * disposed, or through `remove` / `setShouldRemove`; reading it again starts from `initialize`.
+ * Members read only outside any owner live as long as the family.
+ *
+ * @param initialize Initial value for a key.
+ * @param options `areEqual` key comparison, plus signal `equals` and `name`.
+ * @returns Family returning a `[get, set]` pair per key.
+ *
+ * @example
+ * ```ts
+ * const todoDone = createSignalFamily((id: string) => false)
+ * const [done, setDone] = todoDone(todo.id)
+ * ```
+ */
+export function createSignalFamily<K, T>(
+  initialize: (key: K) => T,
+  options: FamilyOptions<K> & SignalOptions<T> = {},
+): Family<K, [Accessor<T>, Setter<T>]> {
+  const { areEqual, ...signalOptions } = options;
+  return createFamily((key: K) => createSignal(initialize(key), signalOptions), { areEqual });
+}
+
+/**
+ * Creates a keyed memo factory: equal keys share one memo, evicted like
+ * {@link createSignalFamily} members.
+ *
+ * @param compute Derivation for a key. Reads inside it are tracked.
+ * @param options `areEqual` key comparison, plus memo `equals` and `name`.
+ * @returns Family returning a memo accessor per key.
+ *
+ * @example
+ * ```ts
+ * const userPosts = createMemoFamily((userId: string) => posts().filter((post) => post.userId === userId))
+ * ```
+ */
+export function createMemoFamily<K, T>(
+  compute: (key: K) => T,
+  options: FamilyOptions<K> & MemoOptions<T> = {},
+): Family<K, Accessor<T>> {
+  const { areEqual, ...memoOptions } = options;
+  return createFamily((key: K) => createMemo(() => compute(key), memoOptions), { areEqual });
+}
+
 /**
  * Registers an effect that runs after React commit.
+ * Re-runs happen after computeds and render effects of the same update.
  *
  * @param effect Effect callback. Return a cleanup function to dispose previous run resources.
+ * @param options Optional debug `name`, used in diagnostics.
  *
  * @example
  * ```ts
@@ -693,11 +2100,17 @@ export const memo = createMemo;
  * })
  * ```
  */
-export function createEffect(effect: () => void | Cleanup): void {
-  const scope = activeScope();
-  const computation = new EffectComputation(effect);
-  scope.register(computation);
-  scope.registerEffectStarter(() => {
+export function createEffect(effect: () => void | Cleanup, options: EffectOptions = {}): void {
+  const owner = activeOwner();
+  const computation = new EffectComputation(
+    effect,
+    owner,
+    EFFECT_QUEUE,
+    "effect",
+    options.name,
+  );
+  owner.register(computation);
+  owner.scope.registerEffectStarter(() => {
     computation.start();
   });
 }
@@ -714,8 +2127,10 @@ export const effect = createEffect;
 
 /**
  * Registers an effect that runs in layout phase.
+ * Re-runs happen in the render queue, before user effects.
  *
  * @param effect Layout effect callback. Return a cleanup function to dispose previous run resources.
+ * @param options Optional debug `name`, used in diagnostics.
  *
  * @example
  * ```ts
@@ -724,11 +2139,17 @@ export const effect = createEffect;
  * })
  * ```
  */
-export function createLayoutEffect(effect: () => void | Cleanup): void {
-  const scope = activeScope();
-  const computation = new EffectComputation(effect);
-  scope.register(computation);
-  scope.registerLayoutStarter(() => {
+export function createLayoutEffect(effect: () => void | Cleanup, options: EffectOptions = {}): void {
+  const owner = activeOwner();
+  const computation = new EffectComputation(
+    effect,
+    owner,
+    RENDER_QUEUE,
+    "layoutEffect",
+    options.name,
+  );
+  owner.register(computation);
+  owner.scope.registerLayoutStarter(() => {
     computation.start();
   });
 }
@@ -744,20 +2165,60 @@ export function createLayoutEffect(effect: () => void | Cleanup): void {
 export const layoutEffect = createLayoutEffect;
 
 /**
- * Creates a reactive computation for side effects.
- * Alias of {@link createEffect} for Solid-style API compatibility.
+ * Registers a render effect, Solid's name for work that must land before the screen updates.
+ * First runs in the layout phase; re-runs share the render queue with component re-renders,
+ * after computeds and before user effects.
+ *
+ * @param effect Render effect callback. Return a cleanup function to dispose previous run resources.
+ * @param options Optional debug `name`, used in diagnostics.
+ *
+ * @example
+ * ```ts
+ * createRenderEffect(() => {
+ *   element.style.width = `${width()}px`
+ * })
+ * ```
+ */
+export function createRenderEffect(effect: () => void | Cleanup, options?: EffectOptions): void {
+  createLayoutEffect(effect, options);
+}
+
+/**
+ * Alias for {@link createRenderEffect}.
+ *
+ * @example
+ * ```ts
+ * renderEffect(() => applyStyles(theme()))
+ * ```
+ */
+export const renderEffect = createRenderEffect;
+
+/**
+ * Creates a synchronous reactive computation, typically used to keep derived signals in sync.
+ * Runs immediately on creation (during setup, before first paint) and re-runs at the start of
+ * every flush, before render effects, component re-renders, and user effects read its writes.
  *
- * @param compute Side-effect function.
+ * @param compute Computation. Return a cleanup function to dispose previous run resources.
+ * @param options Optional debug `name`, used in diagnostics.
  *
  * @example
  * ```ts
  * createComputed(() => {
- *   syncExternalStore(count())
+ *   setFullName(`${first()} ${last()}`)
  * })
  * ```
  */
-export function createComputed(compute: () => void | Cleanup): void {
-  createEffect(compute);
+export function createComputed(compute: () => void | Cleanup, options: EffectOptions = {}): void {
+  const owner = activeOwner();
+  const computation = new EffectComputation(
+    compute,
+    owner,
+    COMPUTED_QUEUE,
+    "computed",
+    options.name,
+  );
+  owner.register(computation);
+  computation.start();
 }
 
 /**
@@ -803,7 +2264,7 @@ export function onMount(callback: () => void | Cleanup): void {
 export const mount = onMount;
 
 /**
- * Registers cleanup in the current effect, active setup scope, or default global scope.
+ * Registers cleanup on the current owner: the running effect or memo, the active setup scope or root, or the default global scope.
  *
  * @param cleanup Cleanup callback invoked on re-run or scope disposal.
  *
@@ -816,12 +2277,7 @@ export const mount = onMount;
  * ```
  */
 export function onCleanup(cleanup: Cleanup): void {
-  if (activeEffect) {
-    activeEffect.registerCleanup(cleanup);
-    return;
-  }
-
-  activeScope().registerCleanup(cleanup);
+  activeOwner().registerCleanup(cleanup);
 }
 
 /**
@@ -834,10 +2290,27 @@ export function onCleanup(cleanup: Cleanup): void {
  */
 export const cleanup = onCleanup;
 
+/**
+ * Options for {@link createRoot}.
+ *
+ * @example
+ * ```ts
+ * const options: RootOptions = { store: getDefaultStore() }
+ * ```
+ */
+export type RootOptions = {
+  /**
+   * Jotai store holding the root's signals. Defaults to the store of the enclosing scope, or
+   * to a new store for a root created outside any owner.
+   */
+  store?: Store;
+};
+
 /**
  * Creates an isolated reactive scope and returns a disposal handle.
  *
  * @param init Initializer executed inside the new scope.
+ * @param options Optional Jotai `store` to keep the root's state in.
  * @returns Return value of `init`.
  *
  * @example
@@ -848,8 +2321,10 @@ export const cleanup = onCleanup;
  * })
  * ```
  */
-export function createRoot<T>(init: (dispose: () => void) => T): T {
-  const scope = new Scope({ autoStart: true });
+export function createRoot<T>(init: (dispose: () => void) => T, options: RootOptions = {}): T {
+  const parent = currentOwner();
+  const scope = new Scope({ autoStart: true, parent, store: options.store ?? parent?.scope.store });
+  inspectScope(scope, "root", undefined);
   let disposed = false;
   const dispose = (): void => {
     if (disposed) {
@@ -859,55 +2334,967 @@ export function createRoot<T>(init: (dispose: () => void) => T): T {
     scope.dispose();
   };
 
-  return withScope(scope, () => init(dispose));
+  return withOwner(scope, () => init(dispose));
 }
 
 /**
- * Batches reactive notifications and flushes once at the end.
+ * Global runtime settings. See {@link configureRuntime}.
  *
- * @param fn Function containing grouped signal/store writes.
- * @returns Result of `fn()`.
+ * @example
+ * ```ts
+ * configureRuntime({ maxUpdateDepth: 50, devMode: true })
+ * ```
+ */
+export type RuntimeOptions = {
+  /**
+   * Maximum times a single effect, computed, or render may run within one flush (or re-run
+   * back-to-back) before the update is aborted with a diagnostic. Defaults to `100`.
+   */
+  maxUpdateDepth?: number;
+  /**
+   * Enables development diagnostics such as naming every memo in a reported cycle.
+   * Defaults to `true` unless `process.env.NODE_ENV === "production"`, and to `false` where
+   * there is no `process` and the bundler did not replace `process.env.NODE_ENV`.
+   */
+  devMode?: boolean;
+  /**
+   * Records render causes for every `component(...)` created from now on, as if each had the
+   * `trace` option, and delivers them to {@link onRenderTrace} listeners. Defaults to `false`.
+   */
+  traceRenders?: boolean;
+  /**
+   * Jotai store used by `component(...)` instances without their own `store` option:
+   * `"isolated"` (a new store per instance, the default) or `"provider"` (the nearest Jotai
+   * `Provider`'s store, or Jotai's default store outside any Provider).
+   */
+  componentStore?: ComponentStoreMode;
+};
+
+/**
+ * Updates global runtime settings. Omitted keys keep their current values.
+ *
+ * @param options Settings to change.
  *
  * @example
  * ```ts
- * batch(() => {
- *   setFirst("Ada")
- *   setLast("Lovelace")
- * })
+ * configureRuntime({ maxUpdateDepth: 20 })
  * ```
  */
-export function batch<T>(fn: () => T): T {
-  batchDepth += 1;
-  try {
-    return fn();
-  } finally {
-    batchDepth -= 1;
-    if (batchDepth === 0) {
-      flushSubscribers();
-    }
+export function configureRuntime(options: RuntimeOptions): void {
+  if (options.maxUpdateDepth !== undefined) {
+    runtimeConfig.maxUpdateDepth = options.maxUpdateDepth;
+  }
+  if (options.devMode !== undefined) {
+    runtimeConfig.devMode = options.devMode;
+  }
+  if (options.traceRenders !== undefined) {
+    runtimeConfig.traceRenders = options.traceRenders;
+  }
+  if (options.componentStore !== undefined) {
+    runtimeConfig.componentStore = options.componentStore;
   }
 }
 
 /**
- * Dependency helper for effects. Runs `fn` only when provided dependencies change.
- *
- * @param deps Dependency accessor or accessor list.
- * @param fn Callback receiving current dependency values and previous values.
- * @param options Optional behavior (`defer` skips the first invocation).
- * @returns Effect callback compatible with `createEffect`.
+ * Disposes the default scope used by primitives created outside components and roots:
+ * runs its cleanups and disposes its effects and memos. The next such primitive starts
+ * a fresh default scope with a new Jotai store. Useful on HMR module disposal.
  *
  * @example
  * ```ts
- * createEffect(
- *   on([userId, locale], ([id, nextLocale], prev) => {
- *     refetchUser(id, nextLocale)
- *   }, { defer: true }),
- * )
+ * import.meta.hot?.dispose(() => disposeGlobalScope())
  * ```
  */
-export function on<T>(
-  deps: Accessor<T>,
-  fn: (input: T, prevInput: T | undefined, prevValue: undefined) => void,
+export function disposeGlobalScope(): void {
+  const scope = globalScope;
+  globalScope = null;
+  scope?.dispose();
+}
+
+/**
+ * Disposes the default scope like {@link disposeGlobalScope} and also clears scheduler state
+ * (queued computations, open batches, owner, tracking and cycle-detection stacks, the active transition)
+ * that an exception may have left behind. Intended for test teardown.
+ *
+ * @example
+ * ```ts
+ * afterEach(() => resetGlobalScope())
+ * ```
+ */
+export function resetGlobalScope(): void {
+  discardPendingQueues();
+  batchDepth = 0;
+  flushing = false;
+  ownerStack.length = 0;
+  collectorStack.length = 0;
+  computingStack.length = 0;
+  activeTransition = null;
+  const scope = globalScope;
+  disposeGlobalScope();
+  if (!scope) {
+    return;
+  }
+  // Global-scope signals are not unregistered on disposal; nodes of live roots stay listed.
+  for (const ref of inspectedRefs.values()) {
+    const target = ref.deref();
+    const inspected = target && inspectedNodes.get(target);
+    if (!target || !inspected) {
+      continue;
+    }
+    let owner = inspected.owner;
+    while (owner && owner !== scope) {
+      owner = owner.parent;
+    }
+    if (owner === scope) {
+      unregisterInspected(target);
+    }
+  }
+}
+
+/**
+ * Kind of work counted by a {@link Profiler}. Render effects count as `"layoutEffect"`.
+ *
+ * @example
+ * ```ts
+ * const kinds: ProfileKind[] = profiler.entries().map((entry) => entry.kind)
+ * ```
+ */
+export type ProfileKind = "signal" | "memo" | "computed" | "layoutEffect" | "effect" | "component" | "resource";
+
+/**
+ * Aggregated measurements of one primitive, or of all anonymous primitives of a kind.
+ *
+ * @example
+ * ```ts
+ * const slowest: ProfileEntry | undefined = profiler.entries()[0]
+ * ```
+ */
+export type ProfileEntry = {
+  kind: ProfileKind;
+  /** Primitive label, e.g. `memo "total"` or `effect (anonymous)`. */
+  label: string;
+  /** Writes for signals and stores; recomputes, runs, renders, or fetches otherwise. */
+  count: number;
+  /** Summed duration in milliseconds. Always `0` for signal writes. */
+  totalMs: number;
+  maxMs: number;
+};
+
+/**
+ * Options for {@link createProfiler}.
+ *
+ * @example
+ * ```ts
+ * const profiler = createProfiler({ marks: true })
+ * ```
+ */
+export type ProfilerOptions = {
+  /** Also reports every timed run as a `performance.measure` entry named after its label. */
+  marks?: boolean;
+};
+
+/**
+ * Live profiling session returned by {@link createProfiler}.
+ *
+ * @example
+ * ```ts
+ * console.table(profiler.entries())
+ * ```
+ */
+export type Profiler = {
+  /** Measurements so far, slowest total first. */
+  entries(): ProfileEntry[];
+  reset(): void;
+  stop(): void;
+};
+
+class ProfilerSession {
+  private readonly totals = new Map<string, ProfileEntry>();
+
+  constructor(private readonly marks: boolean) {}
+
+  record(kind: ProfileKind, label: string, start: number | null, duration: number | null): void {
+    let entry = this.totals.get(label);
+    if (!entry) {
+      entry = { kind, label, count: 0, totalMs: 0, maxMs: 0 };
+      this.totals.set(label, entry);
+    }
+    entry.count += 1;
+    if (duration === null) {
+      return;
+    }
+
+    entry.totalMs += duration;
+    entry.maxMs = Math.max(entry.maxMs, duration);
+    if (this.marks && start !== null && typeof globalThis.performance?.measure === "function") {
+      globalThis.performance.measure(label, { start, duration });
+    }
+  }
+
+  entries(): ProfileEntry[] {
+    return Array.from(this.totals.values(), (entry) => ({ ...entry })).sort(
+      (left, right) => right.totalMs - left.totalMs || right.count - left.count,
+    );
+  }
+
+  reset(): void {
+    this.totals.clear();
+  }
+}
+
+/**
+ * Starts counting signal writes, memo recomputes, effect runs, component renders, and
+ * resource fetches, timing everything but writes. Measurements are aggregated per primitive
+ * label, so give hot primitives a `name`. Profiling costs nothing while no profiler runs.
+ * A profiler created inside an owner stops when the owner is disposed.
+ *
+ * @param options Optional `performance.measure` integration.
+ * @returns Profiler session.
+ *
+ * @example
+ * ```ts
+ * const profiler = createProfiler()
+ * await runScenario()
+ * console.table(profiler.entries())
+ * profiler.stop()
+ * ```
+ */
+export function createProfiler(options: ProfilerOptions = {}): Profiler {
+  const session = new ProfilerSession(Boolean(options.marks));
+  activeProfilers.add(session);
+  const stop = (): void => {
+    activeProfilers.delete(session);
+  };
+  currentOwner()?.registerCleanup(stop);
+
+  return {
+    entries: () => session.entries(),
+    reset: () => {
+      session.reset();
+    },
+    stop,
+  };
+}
+
+/**
+ * Kind of a node reported by {@link inspectGraph}. Render effects report as `"layoutEffect"`.
+ *
+ * @example
+ * ```ts
+ * const memos = inspectGraph().nodes.filter((node) => node.kind === "memo")
+ * ```
+ */
+export type GraphNodeKind =
+  | "signal"
+  | "store"
+  | "memo"
+  | "computed"
+  | "layoutEffect"
+  | "effect"
+  | "component"
+  | "root";
+
+/**
+ * One live node of the reactive graph. Ids are stable for the lifetime of the node.
+ *
+ * @example
+ * ```ts
+ * const node: GraphNode = inspectGraph().nodes[0]
+ * console.log(node.kind, node.name, node.runs)
+ * ```
+ */
+export type GraphNode = {
+  id: number;
+  kind: GraphNodeKind;
+  /** Debug `name` given at creation, or the component display name. */
+  name: string | null;
+  /** Id of the nearest inspected owner, or `null` for top-level roots. */
+  owner: number | null;
+  /** Current value of signals and stores, last computed value of memos. Not read for other kinds. */
+  value?: unknown;
+  /** Writes for signals and stores; recomputes, runs, or renders for everything else. */
+  runs: number;
+  /** Ids of the signals and memos this node currently depends on. */
+  sources: number[];
+  /** Ids of the inspected memos, effects, and components currently depending on this node. */
+  observers: number[];
+};
+
+/**
+ * Snapshot of the reactive graph returned by {@link inspectGraph}.
+ *
+ * @example
+ * ```ts
+ * const graph: ReactiveGraph = inspectGraph()
+ * ```
+ */
+export type ReactiveGraph = {
+  nodes: GraphNode[];
+};
+
+/**
+ * Lists live signals, stores, memos, effects, component scopes, and roots with their
+ * dependency edges. Nodes are only recorded while dev mode is enabled (see
+ * {@link configureRuntime}), so production builds pay nothing and return an empty graph.
+ * Reading the graph does not recompute stale memos.
+ *
+ * @returns Plain snapshot of the graph, ordered by creation.
+ *
+ * @example
+ * ```ts
+ * const hot = inspectGraph().nodes.filter((node) => node.runs > 100)
+ * ```
+ */
+export function inspectGraph(): ReactiveGraph {
+  const nodes = new Map<number, GraphNode>();
+  const live = new Map<object, InspectedNode>();
+  for (const ref of inspectedRefs.values()) {
+    const target = ref.deref();
+    const inspected = target && inspectedNodes.get(target);
+    if (target && inspected) {
+      live.set(target, inspected);
+    }
+  }
+
+  for (const [target, inspected] of live) {
+    let owner = inspected.owner;
+    while (owner && !live.has(owner)) {
+      owner = owner.parent;
+    }
+
+    const sources: number[] = [];
+    for (const source of inspected.tracker?.sources() ?? []) {
+      if (live.has(source)) {
+        sources.push(inspectionId(source));
+      }
+    }
+
+    const id = inspectionId(target);
+    const { value, runs } = inspected.describe();
+    const node: GraphNode = {
+      id,
+      kind: inspected.kind,
+      name: inspected.name ?? null,
+      owner: owner ? inspectionId(owner) : null,
+      runs,
+      sources,
+      observers: [],
+    };
+    if (inspected.kind === "signal" || inspected.kind === "store" || inspected.kind === "memo") {
+      node.value = value;
+    }
+    nodes.set(id, node);
+  }
+
+  for (const node of nodes.values()) {
+    for (const sourceId of node.sources) {
+      nodes.get(sourceId)?.observers.push(node.id);
+    }
+  }
+
+  return { nodes: Array.from(nodes.values()).sort((left, right) => left.id - right.id) };
+}
+
+function graphValueReplacer(): (key: string, value: unknown) => unknown {
+  const seen = new WeakSet<object>();
+  return (_key, value) => {
+    if (typeof value === "function") {
+      return `[Function ${value.name || "anonymous"}]`;
+    }
+    if (typeof value === "symbol" || typeof value === "bigint") {
+      return value.toString();
+    }
+    if (typeof value === "object" && value !== null) {
+      if (seen.has(value)) {
+        return "[Circular]";
+      }
+      seen.add(value);
+    }
+    return value;
+  };
+}
+
+/**
+ * Serializes a graph to JSON. Functions, symbols, bigints, and repeated references
+ * in node values are replaced by descriptive strings.
+ *
+ * @param graph Graph to serialize. Defaults to a fresh {@link inspectGraph} snapshot.
+ * @param space Indentation passed to `JSON.stringify`.
+ * @returns JSON string.
+ *
+ * @example
+ * ```ts
+ * await writeFile("graph.json", graphToJSON(inspectGraph(), 2))
+ * ```
+ */
+export function graphToJSON(graph: ReactiveGraph = inspectGraph(), space?: number): string {
+  return JSON.stringify(graph, graphValueReplacer(), space);
+}
+
+const DOT_SHAPES: Record<GraphNodeKind, string> = {
+  signal: "ellipse",
+  store: "ellipse",
+  memo: "box",
+  computed: "hexagon",
+  layoutEffect: "hexagon",
+  effect: "hexagon",
+  component: "folder",
+  root: "folder",
+};
+
+function previewGraphValue(value: unknown): string {
+  const text = JSON.stringify(value, graphValueReplacer()) ?? String(value);
+  return text.length > 40 ? `${text.slice(0, 39)}…` : text;
+}
+
+/**
+ * Renders a graph in Graphviz DOT. Solid edges point from a source to the nodes that
+ * depend on it; dashed edges connect owners to the nodes they own.
+ *
+ * @param graph Graph to render. Defaults to a fresh {@link inspectGraph} snapshot.
+ * @returns DOT source, e.g. for `dot -Tsvg`.
+ *
+ * @example
+ * ```ts
+ * console.log(graphToDot())
+ * ```
+ */
+export function graphToDot(graph: ReactiveGraph = inspectGraph()): string {
+  const escape = (text: string): string => text.replace(/\\/g, "\\\\").replace(/"/g, '\\"');
+  const lines = ["digraph reactive {", "  rankdir=LR;"];
+
+  for (const node of graph.nodes) {
+    const label = [node.name ? `${node.kind} "${node.name}"` : node.kind];
+    if ("value" in node) {
+      label.push(`= ${previewGraphValue(node.value)}`);
+    }
+    label.push(`runs: ${node.runs}`);
+    lines.push(`  n${node.id} [label="${label.map(escape).join("\\n")}", shape=${DOT_SHAPES[node.kind]}];`);
+  }
+  for (const node of graph.nodes) {
+    if (node.owner !== null) {
+      lines.push(`  n${node.owner} -> n${node.id} [style=dashed, color=gray, arrowhead=none];`);
+    }
+    for (const sourceId of node.sources) {
+      lines.push(`  n${sourceId} -> n${node.id};`);
+    }
+  }
+
+  lines.push("}");
+  return lines.join("\n");
+}
+
+/**
+ * Opaque handle to a reactive owner (effect, memo, root, or component scope).
+ *
+ * @example
+ * ```ts
+ * const owner: Owner | null = getOwner()
+ * ```
+ */
+export type Owner = {
+  readonly parent: Owner | null;
+};
+
+/**
+ * Returns the owner that primitives created right now would be attached to.
+ *
+ * @returns Current owner, or `null` outside any effect, memo, root, or component setup.
+ *
+ * @example
+ * ```ts
+ * const owner = getOwner()
+ * await loadConfig()
+ * runWithOwner(owner, () => createEffect(() => sync(config())))
+ * ```
+ */
+export function getOwner(): Owner | null {
+  return currentOwner();
+}
+
+/**
+ * Runs `fn` under a previously captured owner, so primitives created inside
+ * are disposed with it. Reads inside `fn` are not tracked.
+ *
+ * @param owner Owner returned by {@link getOwner}, or `null` for the default scope.
+ * @param fn Function to execute.
+ * @returns Result of `fn()`.
+ *
+ * @example
+ * ```ts
+ * runWithOwner(owner, () => {
+ *   onCleanup(() => socket.close())
+ * })
+ * ```
+ */
+export function runWithOwner<T>(owner: Owner | null, fn: () => T): T {
+  return untrack(() => withOwner(owner as OwnerNode | null, fn));
+}
+
+/**
+ * Runs `fn` in a child owner whose computations report errors to `handler`
+ * instead of throwing. Errors thrown by `handler` move to the next handler up.
+ *
+ * @param fn Function creating the guarded subtree.
+ * @param handler Receives errors from `fn` and from effects or memos owned by it.
+ * @returns Result of `fn()`, or `undefined` when it throws synchronously.
+ *
+ * @example
+ * ```ts
+ * catchError(() => {
+ *   createEffect(() => riskySync(value()))
+ * }, (error) => report(error))
+ * ```
+ */
+export function catchError<T>(fn: () => T, handler: (error: unknown) => void): T | undefined {
+  const parent = activeOwner();
+  const owner = createErrorOwner(parent, handler);
+  parent.register(owner);
+
+  try {
+    return withOwner(owner, fn);
+  } catch (error) {
+    handleError(owner, error);
+    return undefined;
+  }
+}
+
+/**
+ * Values of the signals and stores of one scope, keyed by signal name (or `name#n` /
+ * `signal#n` for repeated or anonymous ones). Plain data: JSON-serializable when the values are.
+ *
+ * @example
+ * ```ts
+ * const saved: ScopeSnapshot = snapshot(owner)
+ * localStorage.setItem("draft", JSON.stringify(saved))
+ * ```
+ */
+export type ScopeSnapshot = Record<string, unknown>;
+
+function resolveSnapshotScope(root: Owner | null | undefined): Scope {
+  return (root as OwnerNode | null | undefined)?.scope ?? activeScope();
+}
+
+/**
+ * Captures the current values of every live signal and store created in a root or
+ * component scope, including those created inside its effects and memos. Nested
+ * component scopes and roots are not included; snapshot them separately.
+ *
+ * @param root Owner inside the scope, from {@link getOwner}. Defaults to the current scope.
+ * @returns Snapshot for {@link restore}.
+ *
+ * @example
+ * ```ts
+ * const owner = getOwner()
+ * const saved = snapshot(owner)
+ * ```
+ */
+export function snapshot(root?: Owner | null): ScopeSnapshot {
+  const values: ScopeSnapshot = {};
+  for (const [key, source] of resolveSnapshotScope(root).snapshotSources()) {
+    values[key] = source.peek();
+  }
+  return values;
+}
+
+/**
+ * Writes snapshot values back into the signals and stores of a scope in one batch, so
+ * memos and effects re-run once against the restored state. Keys without a live signal
+ * are ignored, and signals missing from the snapshot keep their values.
+ *
+ * @param root Owner inside the scope, from {@link getOwner}. `null` or omitted uses the current scope.
+ * @param values Snapshot taken by {@link snapshot}.
+ *
+ * @example
+ * ```ts
+ * restore(owner, saved)
+ * ```
+ */
+export function restore(root: Owner | null | undefined, values: ScopeSnapshot): void {
+  const sources = resolveSnapshotScope(root).snapshotSources();
+  runBatched(() => {
+    for (const [key, value] of Object.entries(values)) {
+      sources.get(key)?.set(() => value);
+    }
+  });
+}
+
+/**
+ * One signal write in a history entry.
+ *
+ * @example
+ * ```ts
+ * const change: HistoryChange = { key: "count", previous: 1, next: 2 }
+ * ```
+ */
+export type HistoryChange = {
+  key: string;
+  previous: unknown;
+  next: unknown;
+};
+
+/**
+ * Writes recorded together. All writes of one `batch(...)` form a single entry.
+ *
+ * @example
+ * ```ts
+ * const keys = history.entries().map((entry: HistoryEntry) => entry.changes.map((change) => change.key))
+ * ```
+ */
+export type HistoryEntry = {
+  changes: HistoryChange[];
+};
+
+/**
+ * Options for {@link createHistory}.
+ *
+ * @example
+ * ```ts
+ * const history = createHistory(getOwner(), { limit: 20 })
+ * ```
+ */
+export type HistoryOptions = {
+  /** Maximum number of entries kept; the oldest are dropped first. Defaults to `100`. */
+  limit?: number;
+};
+
+/**
+ * Bounded, navigable log of the writes made in one scope.
+ *
+ * @example
+ * ```tsx
+ * <button disabled={history.position() === 0} onClick={() => history.back()}>Undo</button>
+ * ```
+ */
+export type HistoryRecorder = {
+  /** Number of recorded entries. Reactive. */
+  size: Accessor<number>;
+  /** Number of entries currently applied; `0` once everything is undone. Reactive. */
+  position: Accessor<number>;
+  entries(): HistoryEntry[];
+  /** Reverts the latest applied entry. Returns `false` when there is nothing to revert. */
+  back(): boolean;
+  /** Re-applies the next reverted entry. Returns `false` when there is nothing to re-apply. */
+  forward(): boolean;
+  clear(): void;
+};
+
+type RecordedEntry = {
+  readonly serial: number;
+  readonly changes: Map<SignalSource<unknown>, { previous: unknown; next: unknown }>;
+};
+
+class HistoryLog {
+  private entries: RecordedEntry[] = [];
+  private position = 0;
+  private applying = false;
+
+  constructor(
+    private readonly limit: number,
+    private readonly onChange: () => void,
+  ) {}
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  get applied(): number {
+    return this.position;
+  }
+
+  record(source: SignalSource<unknown>, previous: unknown, next: unknown): void {
+    if (this.applying) {
+      return;
+    }
+
+    const latest = this.entries[this.position - 1];
+    if (latest && latest.serial === batchSerial && this.position === this.entries.length) {
+      const change = latest.changes.get(source);
+      if (change) {
+        change.next = next;
+      } else {
+        latest.changes.set(source, { previous, next });
+      }
+    } else {
+      this.entries.splice(this.position);
+      this.entries.push({ serial: batchSerial, changes: new Map([[source, { previous, next }]]) });
+      if (this.entries.length > this.limit) {
+        this.entries.shift();
+      }
+      this.position = this.entries.length;
+    }
+    this.onChange();
+  }
+
+  describe(): HistoryEntry[] {
+    return this.entries.map((entry) => ({
+      changes: Array.from(entry.changes, ([source, change]) => ({
+        key: source.snapshotKey ?? source.label,
+        previous: change.previous,
+        next: change.next,
+      })),
+    }));
+  }
+
+  back(): boolean {
+    const entry = this.entries[this.position - 1];
+    if (!entry) {
+      return false;
+    }
+    this.position -= 1;
+    this.apply(Array.from(entry.changes, ([source, change]) => [source, change.previous] as const).reverse());
+    return true;
+  }
+
+  forward(): boolean {
+    const entry = this.entries[this.position];
+    if (!entry) {
+      return false;
+    }
+    this.position += 1;
+    this.apply(Array.from(entry.changes, ([source, change]) => [source, change.next] as const));
+    return true;
+  }
+
+  clear(): void {
+    this.entries = [];
+    this.position = 0;
+    this.onChange();
+  }
+
+  /** Writes in one batch. Writes made by computations reacting to the step are not recorded. */
+  private apply(writes: ReadonlyArray<readonly [SignalSource<unknown>, unknown]>): void {
+    this.applying = true;
+    try {
+      runBatched(() => {
+        for (const [source, value] of writes) {
+          source.set(() => value);
+        }
+        this.onChange();
+      });
+    } finally {
+      this.applying = false;
+    }
+  }
+}
+
+/**
+ * Records the signal and store writes of a root or component scope so they can be stepped
+ * back and forward. Stepping writes the recorded values in one batch, so memos and effects
+ * re-run once per step against a consistent state. A new write after stepping back discards
+ * the entries ahead of it. The recorder stops when its owner is disposed.
+ *
+ * @param root Owner inside the scope to record, from {@link getOwner}. Defaults to the current scope.
+ * @param options Optional history `limit`.
+ * @returns History recorder.
+ *
+ * @example
+ * ```ts
+ * const history = createHistory()
+ * setCount(1)
+ * history.back() // count() === 0
+ * history.forward() // count() === 1
+ * ```
+ */
+export function createHistory(root?: Owner | null, options: HistoryOptions = {}): HistoryRecorder {
+  const owner = activeOwner();
+  const scope = resolveSnapshotScope(root);
+  const [version, setVersion] = createInternalSignal(0);
+  const log = new HistoryLog(options.limit ?? 100, () => {
+    setVersion((value) => value + 1);
+  });
+
+  scope.addHistoryLog(log);
+  owner.registerCleanup(() => {
+    scope.removeHistoryLog(log);
+  });
+
+  return {
+    size: () => {
+      version();
+      return log.size;
+    },
+    position: () => {
+      version();
+      return log.applied;
+    },
+    entries: () => log.describe(),
+    back: () => log.back(),
+    forward: () => log.forward(),
+    clear: () => {
+      log.clear();
+    },
+  };
+}
+
+let activeTransition: Transition | null = null;
+
+/**
+ * Groups the component re-renders caused by a transition, including those from
+ * resource fetches it started, and commits them together through
+ * `React.startTransition` once every held fetch has settled.
+ */
+class Transition {
+  private holds = 0;
+  private settled = false;
+  private readonly deferredRenders = new Set<() => void>();
+  private resolveDone!: () => void;
+  readonly done = new Promise<void>((resolve) => {
+    this.resolveDone = resolve;
+  });
+
+  run<T>(fn: () => T): T {
+    if (this.settled) {
+      return runBatched(fn);
+    }
+
+    const previous = activeTransition;
+    activeTransition = this;
+    try {
+      return runBatched(fn);
+    } finally {
+      activeTransition = previous;
+    }
+  }
+
+  deferRender(update: () => void): void {
+    this.deferredRenders.add(update);
+  }
+
+  hold(): () => void {
+    this.holds += 1;
+    let released = false;
+    return () => {
+      if (released) {
+        return;
+      }
+      released = true;
+      this.holds -= 1;
+      this.complete();
+    };
+  }
+
+  private complete(): void {
+    if (this.settled || this.holds > 0) {
+      return;
+    }
+
+    this.settled = true;
+    const renders = Array.from(this.deferredRenders);
+    this.deferredRenders.clear();
+    React.startTransition(() => {
+      for (const render of renders) {
+        render();
+      }
+    });
+    this.resolveDone();
+  }
+}
+
+/**
+ * Runs signal writes as a transition. Effects and memos see the writes immediately, while
+ * component re-renders they cause are held until resources refetched by the transition
+ * settle, then committed together through `React.startTransition`, so the previous UI
+ * stays on screen instead of flashing loading states.
+ *
+ * Calls made while another transition is running join it.
+ *
+ * @param fn Function performing the writes.
+ * @returns Promise resolving once the transition has been committed.
+ *
+ * @example
+ * ```ts
+ * await startTransition(() => setUserId(2))
+ * ```
+ */
+export function startTransition(fn: () => void): Promise<void> {
+  if (activeTransition) {
+    activeTransition.run(fn);
+    return activeTransition.done;
+  }
+
+  const transition = new Transition();
+  const release = transition.hold();
+  try {
+    transition.run(fn);
+  } finally {
+    release();
+  }
+  return transition.done;
+}
+
+/**
+ * Creates a pending flag and a starter for transitions, in Solid's shape.
+ * Call it in setup; `isPending` is true while any transition started here is in flight.
+ *
+ * @returns Tuple of `[isPending, start]`.
+ *
+ * @example
+ * ```tsx
+ * const [isPending, start] = useTransition()
+ * return () => (
+ *   <button disabled={isPending()} onClick={() => start(() => setTab("photos"))}>Photos</button>
+ * )
+ * ```
+ */
+export function useTransition(): [Accessor<boolean>, (fn: () => void) => Promise<void>] {
+  const [pendingCount, setPendingCount] = createInternalSignal(0);
+
+  const start = (fn: () => void): Promise<void> => {
+    setPendingCount((count) => count + 1);
+    let done: Promise<void>;
+    try {
+      done = startTransition(fn);
+    } catch (error) {
+      setPendingCount((count) => count - 1);
+      throw error;
+    }
+    return done.finally(() => {
+      setPendingCount((count) => count - 1);
+    });
+  };
+
+  return [() => pendingCount() > 0, start];
+}
+
+/**
+ * Batches reactive notifications and flushes once at the end.
+ *
+ * @param fn Function containing grouped signal/store writes.
+ * @returns Result of `fn()`.
+ *
+ * @example
+ * ```ts
+ * batch(() => {
+ *   setFirst("Ada")
+ *   setLast("Lovelace")
+ * })
+ * ```
+ */
+export function batch<T>(fn: () => T): T {
+  return runBatched(fn);
+}
+
+/**
+ * Dependency helper for effects. Runs `fn` only when provided dependencies change.
+ *
+ * @param deps Dependency accessor or accessor list.
+ * @param fn Callback receiving current dependency values and previous values.
+ * @param options Optional behavior (`defer` skips the first invocation).
+ * @returns Effect callback compatible with `createEffect`.
+ *
+ * @example
+ * ```ts
+ * createEffect(
+ *   on([userId, locale], ([id, nextLocale], prev) => {
+ *     refetchUser(id, nextLocale)
+ *   }, { defer: true }),
+ * )
+ * ```
+ */
+export function on<T>(
+  deps: Accessor<T>,
+  fn: (input: T, prevInput: T | undefined, prevValue: undefined) => void,
   options?: { defer?: boolean },
 ): () => void;
 export function on<T extends readonly unknown[]>(
@@ -923,108 +3310,871 @@ export function on<T>(
   let initialized = false;
   let previousInput: T | undefined;
 
-  const readInput = (): T => {
-    if (Array.isArray(deps)) {
-      return deps.map((dep) => dep()) as T;
+  const readInput = (): T => {
+    if (Array.isArray(deps)) {
+      return deps.map((dep) => dep()) as T;
+    }
+    return (deps as Accessor<T>)();
+  };
+
+  return () => {
+    const input = readInput();
+    if (!initialized) {
+      initialized = true;
+      if (options.defer) {
+        previousInput = input;
+        return;
+      }
+    }
+    fn(input, previousInput, undefined);
+    previousInput = input;
+  };
+}
+
+/**
+ * Executes a function without dependency tracking.
+ *
+ * @param fn Function to execute without capturing dependencies.
+ * @returns Result of `fn()`.
+ *
+ * @example
+ * ```ts
+ * const stable = untrack(() => expensiveSnapshot())
+ * ```
+ */
+export function untrack<T>(fn: () => T): T {
+  const previous = collectorStack.pop();
+  try {
+    return fn();
+  } finally {
+    if (previous) {
+      collectorStack.push(previous);
+    }
+  }
+}
+
+/**
+ * Runs `read` and tracks its reads on behalf of a captured computation.
+ *
+ * @example
+ * ```ts
+ * const track: Track = captureTracking()
+ * ```
+ */
+export type Track = <T>(read: () => T) => T;
+
+/**
+ * Captures the computation currently tracking reads, so reads made later (typically after
+ * an `await`) still subscribe it. The returned function stops tracking once the computation
+ * re-runs or is disposed, and does not track when called outside any computation.
+ *
+ * @returns Function running a read on behalf of the captured computation.
+ *
+ * @example
+ * ```ts
+ * createEffect(() => {
+ *   const track = captureTracking()
+ *   void loadConfig().then(() => log(track(level)))
+ * })
+ * ```
+ */
+export function captureTracking(): Track {
+  return currentCollector()?.capture() ?? untrack;
+}
+
+/**
+ * Creates a manually armed reaction.
+ *
+ * The returned `track` function subscribes to dependencies read inside `trackFn`.
+ * When any dependency changes, `onInvalidate` runs once and the reaction disarms
+ * until `track(...)` is called again.
+ *
+ * @param onInvalidate Callback invoked when tracked dependencies change.
+ * @returns Track function used to arm the reaction.
+ *
+ * @example
+ * ```ts
+ * const track = createReaction(() => console.log("changed"))
+ * track(() => state.userId)
+ * ```
+ */
+export function createReaction(onInvalidate: () => void): (trackFn: () => unknown) => void {
+  const owner = activeOwner();
+
+  let tracker: DependencyTracker | null = null;
+  let armed = false;
+
+  const disposeTracker = (): void => {
+    if (!tracker) {
+      return;
+    }
+    tracker.dispose();
+    tracker = null;
+  };
+
+  const track = (trackFn: () => unknown): void => {
+    armed = true;
+    disposeTracker();
+
+    tracker = new DependencyTracker(() => {
+      if (!armed) {
+        return;
+      }
+      armed = false;
+      disposeTracker();
+      onInvalidate();
+    });
+
+    tracker.collect(trackFn);
+  };
+
+  owner.register({
+    dispose: () => {
+      armed = false;
+      disposeTracker();
+    },
+  });
+
+  return track;
+}
+
+/**
+ * Observer accepted by {@link observable}'s `subscribe`.
+ *
+ * @example
+ * ```ts
+ * const observer: ObservableObserver<number> = { next: (value) => console.log(value) }
+ * ```
+ */
+export type ObservableObserver<T> = {
+  next?: (value: T) => void;
+  error?: (error: unknown) => void;
+  complete?: () => void;
+};
+
+/**
+ * Minimal `Symbol.observable`-compatible object, accepted by RxJS `from(...)` and similar libraries.
+ * It is also keyed by `Symbol.observable` at runtime where that symbol exists; the type leaves it
+ * out so the package does not change the global `Symbol` type.
+ *
+ * @example
+ * ```ts
+ * const count$: Observable<number> = observable(count)
+ * ```
+ */
+export type Observable<T> = {
+  subscribe(observer: ObservableObserver<T> | ((value: T) => void)): { unsubscribe(): void };
+  /** Interop key, always present alongside `Symbol.observable`. */
+  "@@observable"(): Observable<T>;
+};
+
+const $$observable: symbol | "@@observable" = (Symbol as { observable?: symbol }).observable ?? "@@observable";
+
+/**
+ * Exposes an accessor as an observable. Each subscription tracks the accessor in its own
+ * root and emits the current value immediately, then once per change, until unsubscribed.
+ * An error thrown by the accessor goes to the observer's `error` callback and ends the
+ * subscription; without one it is rethrown like any effect error.
+ *
+ * @param accessor Reactive accessor to observe.
+ * @returns Observable of the accessor's values.
+ *
+ * @example
+ * ```ts
+ * import { from as rxFrom } from "rxjs"
+ * rxFrom(observable(count)).subscribe((value) => console.log(value))
+ * ```
+ */
+export function observable<T>(accessor: Accessor<T>): Observable<T> {
+  const result: Observable<T> = {
+    subscribe(observer) {
+      const next = typeof observer === "function" ? observer : observer.next?.bind(observer);
+      const fail = typeof observer === "function" ? undefined : observer.error?.bind(observer);
+      if (!next && !fail) {
+        return { unsubscribe() {} };
+      }
+
+      let closed = false;
+      const dispose = createRoot((dispose) => {
+        createEffect(() => {
+          // A closed subscription reads nothing, so this run also drops its dependencies.
+          if (closed) {
+            return;
+          }
+          let value: T;
+          try {
+            value = accessor();
+          } catch (error) {
+            if (!fail) {
+              throw error;
+            }
+            closed = true;
+            untrack(() => fail(error));
+            return;
+          }
+          untrack(() => next?.(value));
+        });
+        return dispose;
+      });
+
+      return {
+        unsubscribe() {
+          dispose();
+        },
+      };
+    },
+    [$$observable]() {
+      return result;
+    },
+    "@@observable"() {
+      return result;
+    },
+  };
+  return result;
+}
+
+/**
+ * Value source accepted by {@link from}: a `(set) => unsubscribe` producer, or anything with a
+ * `subscribe(callback)` method returning an unsubscribe function or subscription (RxJS
+ * observables and subjects, Svelte stores, ...).
+ *
+ * @example
+ * ```ts
+ * const ticks: Producer<number> = (set) => {
+ *   const id = setInterval(() => set((n) => n + 1), 1000)
+ *   return () => clearInterval(id)
+ * }
+ * ```
+ */
+export type Producer<T> =
+  | ((setter: Setter<T>) => () => void)
+  | {
+      subscribe: (next: (value: T) => void) => (() => void) | { unsubscribe(): void };
+    };
+
+/**
+ * Turns a producer or subscribable into an accessor holding its latest value. Every
+ * emission notifies readers, even when equal to the previous one. The subscription is
+ * torn down when the current owner is disposed.
+ *
+ * @param producer Producer function or subscribable.
+ * @param initialValue Value until the first emission.
+ * @returns Accessor of the latest value.
+ *
+ * @example
+ * ```ts
+ * const messages = from(socket$, [])
+ * ```
+ */
+export function from<T>(producer: Producer<T>): Accessor<T | undefined>;
+export function from<T>(producer: Producer<T>, initialValue: T): Accessor<T>;
+export function from<T>(producer: Producer<T>, initialValue?: T): Accessor<T | undefined> {
+  const [value, setValue] = createInternalSignal<T | undefined>(initialValue, { equals: false });
+
+  let unsubscribe: () => void;
+  if (typeof producer === "function") {
+    unsubscribe = producer(setValue as Setter<T>);
+  } else {
+    const subscription = producer.subscribe((next) => {
+      setValue(() => next);
+    });
+    unsubscribe = typeof subscription === "function" ? subscription : () => subscription.unsubscribe();
+  }
+
+  onCleanup(() => {
+    unsubscribe();
+  });
+
+  return value;
+}
+
+/**
+ * Exposes an accessor as an async iterable. Each iteration starts with the current value,
+ * then yields every change in order, buffering values the consumer has not pulled yet.
+ * Iterations end when the loop breaks or when the owner that created the iterable is disposed
+ * (created outside any owner, only when the loop breaks).
+ *
+ * @param accessor Reactive accessor to iterate.
+ * @returns Async iterable of the accessor's values.
+ *
+ * @example
+ * ```ts
+ * for await (const value of toAsyncIterable(count)) {
+ *   if (value > 10) break
+ * }
+ * ```
+ */
+export function toAsyncIterable<T>(accessor: Accessor<T>): AsyncIterable<T> {
+  const finishers = new Set<() => void>();
+  let ownerDisposed = false;
+  // Without an owner, iterations only end when the consumer stops.
+  currentOwner()?.registerCleanup(() => {
+    ownerDisposed = true;
+    for (const finish of Array.from(finishers)) {
+      finish();
     }
-    return (deps as Accessor<T>)();
+  });
+
+  return {
+    [Symbol.asyncIterator](): AsyncIterator<T> {
+      const buffered: T[] = [];
+      let waiting: ((result: IteratorResult<T>) => void) | null = null;
+      let done = ownerDisposed;
+
+      const subscription = done
+        ? null
+        : observable(accessor).subscribe((value) => {
+            if (waiting) {
+              const resolve = waiting;
+              waiting = null;
+              resolve({ done: false, value });
+            } else {
+              buffered.push(value);
+            }
+          });
+
+      const finish = (): void => {
+        if (done) {
+          return;
+        }
+        done = true;
+        finishers.delete(finish);
+        subscription?.unsubscribe();
+        buffered.length = 0;
+        waiting?.({ done: true, value: undefined });
+        waiting = null;
+      };
+      if (!done) {
+        finishers.add(finish);
+      }
+
+      return {
+        next: () => {
+          if (buffered.length > 0) {
+            return Promise.resolve({ done: false, value: buffered.shift()! });
+          }
+          if (done) {
+            return Promise.resolve({ done: true, value: undefined });
+          }
+          return new Promise((resolve) => {
+            waiting = resolve;
+          });
+        },
+        return: () => {
+          finish();
+          return Promise.resolve({ done: true, value: undefined });
+        },
+      };
+    },
   };
+}
 
-  return () => {
-    const input = readInput();
-    if (!initialized) {
-      initialized = true;
-      if (options.defer) {
-        previousInput = input;
+/**
+ * Alias for {@link toAsyncIterable}.
+ *
+ * @example
+ * ```ts
+ * for await (const value of changes(count)) console.log(value)
+ * ```
+ */
+export const changes = toAsyncIterable;
+
+/**
+ * Creates an accessor holding the latest value yielded by an async iterable. Every yield
+ * notifies readers. Iteration stops (calling the iterator's `return`) when the current owner
+ * is disposed or iteration fails. Iteration errors go to the nearest `catchError` /
+ * `ErrorBoundary` handler; without one, the accessor rethrows the error to its readers.
+ *
+ * @param iterable Async iterable to consume.
+ * @param initialValue Value until the first yield.
+ * @returns Accessor of the latest value.
+ *
+ * @example
+ * ```ts
+ * const progress = fromAsyncIterable(uploadProgress(file), 0)
+ * ```
+ */
+export function fromAsyncIterable<T>(iterable: AsyncIterable<T>): Accessor<T | undefined>;
+export function fromAsyncIterable<T>(iterable: AsyncIterable<T>, initialValue: T): Accessor<T>;
+export function fromAsyncIterable<T>(iterable: AsyncIterable<T>, initialValue?: T): Accessor<T | undefined> {
+  const owner = activeOwner();
+  const [value, setValue] = createInternalSignal<T | undefined>(initialValue, { equals: false });
+  const [failure, setFailure] = createInternalSignal<{ error: unknown } | null>(null);
+  const iterator = iterable[Symbol.asyncIterator]();
+  let active = true;
+
+  const stop = (): void => {
+    if (!active) {
+      return;
+    }
+    active = false;
+    Promise.resolve(iterator.return?.()).catch(() => undefined);
+  };
+  owner.registerCleanup(stop);
+
+  const consume = async (): Promise<void> => {
+    try {
+      while (active) {
+        const result = await iterator.next();
+        if (!active || result.done) {
+          return;
+        }
+        setValue(() => result.value);
+      }
+    } catch (error) {
+      if (!active) {
         return;
       }
+      stop();
+      try {
+        handleError(owner, error);
+      } catch (unhandled) {
+        // Nothing caught it, so readers see it instead of an unhandled rejection.
+        setFailure({ error: unhandled });
+      }
     }
-    fn(input, previousInput, undefined);
-    previousInput = input;
   };
+  void consume();
+
+  return () => {
+    const failed = failure();
+    if (failed) {
+      throw failed.error;
+    }
+    return value();
+  };
+}
+
+/**
+ * Exposes an accessor as a `ReadableStream` with the same values as {@link toAsyncIterable}.
+ * Cancelling the stream, or disposing the owner that created it, stops it.
+ *
+ * @param accessor Reactive accessor to stream.
+ * @returns Readable stream of the accessor's values.
+ *
+ * @example
+ * ```ts
+ * await toReadableStream(status).pipeTo(socketWritable)
+ * ```
+ */
+export function toReadableStream<T>(accessor: Accessor<T>): ReadableStream<T> {
+  const iterator = toAsyncIterable(accessor)[Symbol.asyncIterator]();
+  return new ReadableStream<T>({
+    async pull(controller) {
+      const result = await iterator.next();
+      if (result.done) {
+        controller.close();
+      } else {
+        controller.enqueue(result.value);
+      }
+    },
+    async cancel() {
+      await iterator.return?.();
+    },
+  });
+}
+
+/**
+ * Creates an accessor holding the latest chunk read from a `ReadableStream`, like
+ * {@link fromAsyncIterable}. The reader is cancelled when the current owner is disposed.
+ *
+ * @param stream Stream to read.
+ * @param initialValue Value until the first chunk.
+ * @returns Accessor of the latest chunk.
+ *
+ * @example
+ * ```ts
+ * const line = fromReadableStream(response.body!.pipeThrough(new TextDecoderStream()), "")
+ * ```
+ */
+export function fromReadableStream<T>(stream: ReadableStream<T>): Accessor<T | undefined>;
+export function fromReadableStream<T>(stream: ReadableStream<T>, initialValue: T): Accessor<T>;
+export function fromReadableStream<T>(stream: ReadableStream<T>, initialValue?: T): Accessor<T | undefined> {
+  const reader = stream.getReader();
+  const iterable: AsyncIterable<T> = {
+    [Symbol.asyncIterator]: () => ({
+      next: () => reader.read() as Promise<IteratorResult<T>>,
+      return: async () => {
+        await reader.cancel();
+        return { done: true, value: undefined };
+      },
+    }),
+  };
+  return fromAsyncIterable(iterable, initialValue as T);
+}
+
+/**
+ * Node-style event emitter (`on` plus `off` or `removeListener`), e.g. `EventEmitter` or a socket.
+ *
+ * @example
+ * ```ts
+ * const emitter: EventEmitterLike = new EventEmitter()
+ * ```
+ */
+export type EventEmitterLike = {
+  on(type: string, listener: (...args: unknown[]) => void): unknown;
+  off?(type: string, listener: (...args: unknown[]) => void): unknown;
+  removeListener?(type: string, listener: (...args: unknown[]) => void): unknown;
+};
+
+/**
+ * Anything {@link createEventListener} can listen on. `null` / `undefined` means "not bound yet".
+ *
+ * @example
+ * ```ts
+ * const target: EventSourceTarget = window
+ * ```
+ */
+export type EventSourceTarget = EventTarget | EventEmitterLike | null | undefined;
+
+function listen<E>(
+  target: EventTarget | EventEmitterLike,
+  type: string,
+  handler: (event: E) => void,
+  options?: boolean | AddEventListenerOptions,
+): Cleanup {
+  if ("addEventListener" in target) {
+    const listener = handler as unknown as EventListener;
+    target.addEventListener(type, listener, options);
+    return () => {
+      target.removeEventListener(type, listener, options);
+    };
+  }
+
+  const listener = handler as (...args: unknown[]) => void;
+  target.on(type, listener);
+  return () => {
+    (target.off ?? target.removeListener)?.call(target, type, listener);
+  };
+}
+
+/**
+ * Adds an event listener for the lifetime of the current owner. When `target` is an
+ * accessor the listener moves to each new target (and is detached while it is `null`).
+ * Binding happens in the layout phase inside components, so element refs are set, and
+ * immediately elsewhere.
+ *
+ * @param target DOM `EventTarget`, Node-style emitter, or an accessor of either.
+ * @param type Event name.
+ * @param handler Listener. It runs untracked.
+ * @param options `addEventListener` options, for DOM targets.
+ *
+ * @example
+ * ```tsx
+ * let button: HTMLButtonElement | null = null
+ * createEventListener(() => button, "click", () => setClicks((n) => n + 1))
+ * return () => <button ref={(el) => (button = el)}>Click</button>
+ * ```
+ */
+export function createEventListener<E = Event>(
+  target: MaybeAccessor<EventSourceTarget>,
+  type: string,
+  handler: (event: E) => void,
+  options?: boolean | AddEventListenerOptions,
+): void {
+  createRenderEffect(() => {
+    const resolved = resolveMaybeAccessor(target);
+    if (!resolved) {
+      return undefined;
+    }
+    return listen(resolved, type, (event: E) => untrack(() => handler(event)), options);
+  });
+}
+
+/**
+ * Creates an accessor holding the latest event from a target, optionally mapped. The
+ * listener follows an accessor target and is removed when the current owner is disposed.
+ *
+ * @param target DOM `EventTarget`, Node-style emitter, or an accessor of either.
+ * @param type Event name.
+ * @param map Maps each event to the stored value. Defaults to the event itself.
+ * @param initialValue Value until the first event.
+ * @param options `addEventListener` options, for DOM targets.
+ * @returns Accessor of the latest (mapped) event.
+ *
+ * @example
+ * ```ts
+ * const width = fromEvent(window, "resize", () => window.innerWidth, window.innerWidth, { passive: true })
+ * ```
+ */
+export function fromEvent<E = Event, R = E>(
+  target: MaybeAccessor<EventSourceTarget>,
+  type: string,
+  map?: (event: E) => R,
+  initialValue?: R,
+  options?: boolean | AddEventListenerOptions,
+): Accessor<R | undefined> {
+  const [value, setValue] = createInternalSignal<R | undefined>(initialValue);
+  createEventListener<E>(
+    target,
+    type,
+    (event) => {
+      const next = map ? map(event) : (event as unknown as R);
+      setValue(() => next);
+    },
+    options,
+  );
+  return value;
+}
+
+/**
+ * Options for {@link createDebounced}.
+ *
+ * @example
+ * ```ts
+ * const options: DebounceOptions = { leading: true, maxWait: 1000 }
+ * ```
+ */
+export type DebounceOptions = {
+  /** Publish the first change of a burst immediately. Defaults to `false`. */
+  leading?: boolean;
+  /** Publish the last change once the source has been quiet for `ms`. Defaults to `true`. */
+  trailing?: boolean;
+  /** Longest time a pending change may wait during a continuous burst. */
+  maxWait?: number;
+};
+
+/**
+ * Delay accepted by {@link createTimeout}, {@link createInterval} and {@link createNow}.
+ * `false` or `null` pauses the timer.
+ *
+ * @example
+ * ```ts
+ * const delay: TimerDelay = paused() ? false : 1000
+ * ```
+ */
+export type TimerDelay = number | false | null;
+
+/**
+ * Creates an accessor that follows `source` once it has stopped changing for `ms`.
+ * Pending timers are cleared when the current owner is disposed.
+ *
+ * @param source Source accessor.
+ * @param ms Quiet period in milliseconds.
+ * @param options `leading` / `trailing` edges and `maxWait`.
+ * @returns Accessor of the debounced value, starting at the current source value.
+ *
+ * @example
+ * ```ts
+ * const debouncedQuery = createDebounced(query, 300)
+ * const [results] = createResource(debouncedQuery, search)
+ * ```
+ */
+export function createDebounced<T>(
+  source: Accessor<T>,
+  ms: number,
+  options: DebounceOptions = {},
+): Accessor<T> {
+  const { leading = false, trailing = true, maxWait } = options;
+  const initialValue = untrack(source);
+  const [value, setValue] = createInternalSignal(initialValue);
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let maxTimer: ReturnType<typeof setTimeout> | undefined;
+  let pending: { value: T } | null = null;
+  let first = true;
+
+  const publish = (): void => {
+    if (pending) {
+      const next = pending.value;
+      pending = null;
+      setValue(() => next);
+    }
+  };
+
+  const settle = (): void => {
+    timer = undefined;
+    clearTimeout(maxTimer);
+    maxTimer = undefined;
+    if (trailing) {
+      publish();
+    }
+    pending = null;
+  };
+
+  createRenderEffect(() => {
+    const next = source();
+    if (first) {
+      first = false;
+      if (Object.is(next, initialValue)) {
+        return;
+      }
+    }
+
+    pending = { value: next };
+    if (timer === undefined) {
+      if (leading) {
+        publish();
+      }
+    } else {
+      clearTimeout(timer);
+    }
+
+    if (maxWait !== undefined && maxTimer === undefined) {
+      maxTimer = setTimeout(() => {
+        maxTimer = undefined;
+        if (trailing) {
+          publish();
+          return;
+        }
+        // Without a trailing edge the burst just ends, so the next change is a leading edge again.
+        clearTimeout(timer);
+        timer = undefined;
+        pending = null;
+      }, maxWait);
+    }
+    timer = setTimeout(settle, ms);
+  });
+
+  onCleanup(() => {
+    clearTimeout(timer);
+    clearTimeout(maxTimer);
+    pending = null;
+  });
+
+  return value;
 }
 
 /**
- * Executes a function without dependency tracking.
+ * Creates an accessor that follows `source` at most once every `ms`: the first change
+ * publishes immediately, and the latest change of each window publishes when it ends.
  *
- * @param fn Function to execute without capturing dependencies.
- * @returns Result of `fn()`.
+ * @param source Source accessor.
+ * @param ms Window length in milliseconds.
+ * @param options `leading` / `trailing` edges, both `true` by default.
+ * @returns Accessor of the throttled value.
  *
  * @example
  * ```ts
- * const stable = untrack(() => expensiveSnapshot())
+ * const scrollY = fromEvent(window, "scroll", () => window.scrollY, 0)
+ * const throttledY = createThrottled(scrollY, 100)
  * ```
  */
-export function untrack<T>(fn: () => T): T {
-  const previous = collectorStack.pop();
-  try {
-    return fn();
-  } finally {
-    if (previous) {
-      collectorStack.push(previous);
-    }
-  }
+export function createThrottled<T>(
+  source: Accessor<T>,
+  ms: number,
+  options: Pick<DebounceOptions, "leading" | "trailing"> = {},
+): Accessor<T> {
+  return createDebounced(source, ms, {
+    leading: options.leading ?? true,
+    trailing: options.trailing ?? true,
+    maxWait: ms,
+  });
 }
 
 /**
- * Creates a manually armed reaction.
- *
- * The returned `track` function subscribes to dependencies read inside `trackFn`.
- * When any dependency changes, `onInvalidate` runs once and the reaction disarms
- * until `track(...)` is called again.
+ * Calls `fn` once after `ms`. When `ms` is an accessor the timeout restarts whenever it
+ * changes, and `false` / `null` cancels it. Cleared when the current owner is disposed.
  *
- * @param onInvalidate Callback invoked when tracked dependencies change.
- * @returns Track function used to arm the reaction.
+ * @param fn Callback. It runs untracked.
+ * @param ms Delay in milliseconds, or an accessor of it.
+ * @returns Function that clears the pending timeout.
  *
  * @example
  * ```ts
- * const track = createReaction(() => console.log("changed"))
- * track(() => state.userId)
+ * const clear = createTimeout(() => setToast(null), 3000)
  * ```
  */
-export function createReaction(onInvalidate: () => void): (trackFn: () => unknown) => void {
-  const scope = activeScope();
-
-  let tracker: DependencyTracker | null = null;
-  let armed = false;
-
-  const disposeTracker = (): void => {
-    if (!tracker) {
-      return;
-    }
-    tracker.dispose();
-    tracker = null;
+export function createTimeout(fn: () => void, ms: MaybeAccessor<TimerDelay>): () => void {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const clear = (): void => {
+    clearTimeout(timer);
+    timer = undefined;
   };
 
-  const track = (trackFn: () => unknown): void => {
-    armed = true;
-    disposeTracker();
+  createRenderEffect(() => {
+    const delay = resolveMaybeAccessor(ms);
+    if (delay === false || delay === null) {
+      return undefined;
+    }
+    timer = setTimeout(() => {
+      timer = undefined;
+      untrack(fn);
+    }, delay);
+    return clear;
+  });
 
-    tracker = new DependencyTracker(() => {
-      if (!armed) {
-        return;
-      }
-      armed = false;
-      disposeTracker();
-      onInvalidate();
-    });
+  return clear;
+}
 
-    tracker.collect(trackFn);
+/**
+ * Calls `fn` every `ms`. When `ms` is an accessor the interval restarts whenever it
+ * changes, and `false` / `null` pauses it. Cleared when the current owner is disposed.
+ *
+ * @param fn Callback. It runs untracked.
+ * @param ms Period in milliseconds, or an accessor of it.
+ * @returns Function that clears the interval.
+ *
+ * @example
+ * ```ts
+ * createInterval(() => save(draft()), () => (autosave() ? 5000 : false))
+ * ```
+ */
+export function createInterval(fn: () => void, ms: MaybeAccessor<TimerDelay>): () => void {
+  let timer: ReturnType<typeof setInterval> | undefined;
+  const clear = (): void => {
+    clearInterval(timer);
+    timer = undefined;
   };
 
-  scope.register({
-    dispose: () => {
-      armed = false;
-      disposeTracker();
-    },
+  createRenderEffect(() => {
+    const delay = resolveMaybeAccessor(ms);
+    if (delay === false || delay === null) {
+      return undefined;
+    }
+    timer = setInterval(() => {
+      untrack(fn);
+    }, delay);
+    return clear;
   });
 
-  return track;
+  return clear;
+}
+
+/**
+ * Creates a clock accessor holding `Date.now()`, refreshed every `intervalMs`.
+ *
+ * @param intervalMs Refresh period in milliseconds, or an accessor of it. Defaults to 1000.
+ * @returns Accessor of the current timestamp.
+ *
+ * @example
+ * ```ts
+ * const now = createNow()
+ * const elapsed = createMemo(() => now() - startedAt)
+ * ```
+ */
+export function createNow(intervalMs: MaybeAccessor<TimerDelay> = 1000): Accessor<number> {
+  const [now, setNow] = createInternalSignal(Date.now());
+  createInterval(() => setNow(Date.now()), intervalMs);
+  return now;
 }
 
+/** Jotai atom whose value (often a promise) a resource resolves. */
+type ResourceAtom<T> = Atom<Promise<T> | T>;
+
 type ResourceFetcher<T, S> =
-  | ((source: S, info: { value: T | undefined; refetching: boolean }) => Promise<T> | T)
-  | (() => Promise<T> | T);
+  | ((source: S, info: ResourceFetcherInfo<T>) => Promise<T> | T)
+  | ((info: ResourceFetcherInfo<T>) => Promise<T> | T | ResourceAtom<T>);
+
+/**
+ * Matches the public shape of Jotai's `Atom` interface: a `read` function plus an own `toString`
+ * method, which `atom()` puts on every atom it creates. Plain objects that merely have a `read`
+ * method (stream readers, for example) inherit `toString` and stay values.
+ */
+function isAtom(value: unknown): value is Atom<unknown> {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as Atom<unknown>).read === "function" &&
+    Object.prototype.hasOwnProperty.call(value, "toString") &&
+    typeof (value as Atom<unknown>).toString === "function"
+  );
+}
+
+/** Reads an atom through {@link fromAtom}, so the current computation follows its changes. */
+function readAtomTracked<T>(sourceAtom: Atom<T>, store: Store | undefined): T {
+  const bound = fromAtom(sourceAtom, { store }) as Accessor<T> | [Accessor<T>, unknown];
+  return typeof bound === "function" ? bound() : bound[0]();
+}
 
 function resolveResourceArgs<T, S>(
   sourceOrFetcher: Accessor<S> | ResourceFetcher<T, S>,
@@ -1050,6 +4200,29 @@ function resolveResourceArgs<T, S>(
   };
 }
 
+/**
+ * Creates an async resource from a Jotai atom (typically an async atom), or from an accessor
+ * returning one, e.g. `() => userAtomFamily(id())`. The resource follows the atom's store, so
+ * a new promise from the atom refetches, and exposes pending / ready / errored via `state()`.
+ *
+ * @param source Atom, or accessor returning the atom to read.
+ * @param options Optional resource options, including the Jotai `store`.
+ * @returns Tuple of `[resourceAccessor, controls]`.
+ *
+ * @example
+ * ```ts
+ * const userAtom = atom(async (get) => fetchUser(get(userIdAtom)))
+ * const [user] = createResource(userAtom, { store: getDefaultStore() })
+ * ```
+ */
+export function createResource<T>(
+  source: ResourceAtom<T> | ((info: ResourceFetcherInfo<T>) => ResourceAtom<T>),
+  options?: ResourceOptions<T>,
+): [
+  ResourceAccessor<T>,
+  ResourceControls<T>,
+];
+
 /**
  * Creates an async resource from a fetcher.
  *
@@ -1064,7 +4237,7 @@ function resolveResourceArgs<T, S>(
  * ```
  */
 export function createResource<T>(
-  fetcher: () => Promise<T> | T,
+  fetcher: (info: ResourceFetcherInfo<T>) => Promise<T> | T,
   options?: ResourceOptions<T>,
 ): [
   ResourceAccessor<T>,
@@ -1086,20 +4259,23 @@ export function createResource<T>(
  */
 export function createResource<S, T>(
   source: Accessor<S>,
-  fetcher: (source: S, info: { value: T | undefined; refetching: boolean }) => Promise<T> | T,
+  fetcher: (source: S, info: ResourceFetcherInfo<T>) => Promise<T> | T,
   options?: ResourceOptions<T>,
 ): [
   ResourceAccessor<T>,
   ResourceControls<T>,
 ];
 export function createResource<T, S>(
-  sourceOrFetcher: Accessor<S> | ResourceFetcher<T, S>,
+  sourceOrFetcherOrAtom: Accessor<S> | ResourceFetcher<T, S> | ResourceAtom<T>,
   maybeFetcher?: ResourceFetcher<T, S> | ResourceOptions<T>,
   maybeOptions?: ResourceOptions<T>,
 ): [
   ResourceAccessor<T>,
   ResourceControls<T>,
 ] {
+  const sourceOrFetcher = isAtom(sourceOrFetcherOrAtom)
+    ? () => sourceOrFetcherOrAtom
+    : sourceOrFetcherOrAtom;
   const isSourceMode = typeof maybeFetcher === "function";
   const parsed = isSourceMode
     ? resolveResourceArgs(
@@ -1113,14 +4289,14 @@ export function createResource<T, S>(
         maybeFetcher as ResourceOptions<T> | undefined,
       );
 
-  const [value, setValue] = createSignal<T | undefined>(parsed.options.initialValue);
-  const [latest, setLatest] = createSignal<T | undefined>(parsed.options.initialValue);
-  const [loading, setLoading] = createSignal(false);
-  const [error, setError] = createSignal<unknown>(undefined);
-  const [state, setState] = createSignal<ResourceState>(
+  const [value, setValue] = createInternalSignal<T | undefined>(parsed.options.initialValue);
+  const [latest, setLatest] = createInternalSignal<T | undefined>(parsed.options.initialValue);
+  const [loading, setLoading] = createInternalSignal(false);
+  const [error, setError] = createInternalSignal<unknown>(undefined);
+  const [state, setState] = createInternalSignal<ResourceState>(
     parsed.options.initialValue === undefined ? "unresolved" : "ready",
   );
-  const [refetchCount, setRefetchCount] = createSignal(0);
+  const [refetchCount, setRefetchCount] = createInternalSignal(0);
 
   let runId = 0;
 
@@ -1128,39 +4304,59 @@ export function createResource<T, S>(
     const sourceValue = parsed.source ? parsed.source() : undefined;
     const currentRefetchCount = refetchCount();
     const refetching = currentRefetchCount > 0;
+    const track = captureTracking();
     const requestId = ++runId;
+    const transition = activeTransition;
+    const release = transition?.hold();
+    const commit = (apply: () => void): void => {
+      if (transition) {
+        transition.run(apply);
+      } else {
+        batch(apply);
+      }
+    };
 
     setLoading(true);
     setError(undefined);
     setState("pending");
 
     const execute = async (): Promise<void> => {
+      let outcome: { ok: true; value: T } | { ok: false; error: unknown };
+      const finishProfiling = startProfiling("resource", describeComputation("resource", parsed.options.name));
       try {
-        const nextValue = parsed.source
-          ? await (parsed.fetcher as (source: S, info: { value: T | undefined; refetching: boolean }) => Promise<T> | T)(
+        const info: ResourceFetcherInfo<T> = { value: untrack(latest), refetching, track };
+        const result = parsed.source
+          ? (parsed.fetcher as (source: S, info: ResourceFetcherInfo<T>) => Promise<T> | T)(
               sourceValue as S,
-              { value: latest(), refetching },
+              info,
             )
-          : await (parsed.fetcher as () => Promise<T> | T)();
-
-        if (requestId !== runId) {
-          return;
-        }
-
-        setValue(nextValue);
-        setLatest(nextValue);
-        setState("ready");
+          : (parsed.fetcher as (info: ResourceFetcherInfo<T>) => Promise<T> | T | ResourceAtom<T>)(info);
+        // Still synchronous here, so an atom read is tracked by (and disposed with) this run.
+        const nextValue = await (isAtom(result) ? readAtomTracked(result, parsed.options.store) : result);
+        outcome = { ok: true, value: nextValue };
       } catch (nextError) {
+        outcome = { ok: false, error: nextError };
+      }
+      finishProfiling?.();
+
+      try {
         if (requestId !== runId) {
           return;
         }
 
-        setError(nextError);
-        setState("errored");
-      } finally {
-        if (requestId === runId) {
+        commit(() => {
+          if (outcome.ok) {
+            setValue(outcome.value);
+            setLatest(outcome.value);
+            setState("ready");
+          } else {
+            setError(outcome.error);
+            setState("errored");
+          }
           setLoading(false);
-        }
+        });
+      } finally {
+        release?.();
       }
     };
 
@@ -1208,26 +4404,96 @@ export function createResource<T, S>(
  */
 export const resource = createResource;
 
+/**
+ * Shortcut for `createResource(atom)[0]`: resolves a Jotai atom (typically an async atom),
+ * or the atom returned by an accessor, and follows it in its store.
+ *
+ * @param source Atom, or accessor returning the atom to read.
+ * @param options Optional resource options, including the Jotai `store`.
+ * @returns Resource accessor only.
+ *
+ * @example
+ * ```ts
+ * const user = createAsync(() => userAtomFamily(userId()))
+ * ```
+ */
+export function createAsync<T>(
+  source: ResourceAtom<T> | ((info: ResourceFetcherInfo<T>) => ResourceAtom<T>),
+  options?: ResourceOptions<T>,
+): ResourceAccessor<T>;
+
 /**
  * Shortcut for `createResource(fetcher)[0]`.
  *
+ * Reads before the first `await` are tracked automatically. Wrap reads made after an
+ * `await` in `info.track(...)` so a change to them re-runs the computation too.
+ *
  * @param compute Async or sync function that resolves the value.
  * @param options Optional resource options such as `initialValue`.
  * @returns Resource accessor only.
  *
  * @example
  * ```ts
- * const profile = createAsync(() => fetchProfile())
+ * const posts = createAsync(async ({ track }) => {
+ *   const user = await getUser()
+ *   return fetchPosts(user.id, track(filter))
+ * })
  * ```
  */
 export function createAsync<T>(
-  compute: () => Promise<T> | T,
+  compute: (info: ResourceFetcherInfo<T>) => Promise<T> | T,
+  options?: ResourceOptions<T>,
+): ResourceAccessor<T>;
+export function createAsync<T>(
+  compute: ResourceAtom<T> | ((info: ResourceFetcherInfo<T>) => Promise<T> | T | ResourceAtom<T>),
   options?: ResourceOptions<T>,
 ): ResourceAccessor<T> {
-  const [resource] = createResource(compute, options);
+  const [resource] = createResource(compute as (info: ResourceFetcherInfo<T>) => Promise<T> | T, options);
   return resource;
 }
 
+/**
+ * Jotai `loadable` shape produced by {@link toLoadableAtom}.
+ *
+ * @example
+ * ```ts
+ * const loadable: Loadable<User> = { state: "hasData", data: user }
+ * ```
+ */
+export type Loadable<T> =
+  | { state: "loading" }
+  | { state: "hasError"; error: unknown }
+  | { state: "hasData"; data: T };
+
+/**
+ * Exposes a resource as a Jotai atom in `loadable` form, so Jotai code can consume it
+ * without suspending. Built on {@link toAtom}: it follows the resource while mounted.
+ *
+ * @param resource Resource accessor from {@link createResource} or {@link createAsync}.
+ * @returns Read-only atom of `{ state: "loading" | "hasError" | "hasData" }`.
+ *
+ * @example
+ * ```tsx
+ * const usersAtom = toLoadableAtom(users)
+ * const Users = () => {
+ *   const users = useAtomValue(usersAtom)
+ *   return users.state === "hasData" ? <List items={users.data} /> : <Spinner />
+ * }
+ * ```
+ */
+export function toLoadableAtom<T>(resource: ResourceAccessor<T>): Atom<Loadable<T>> {
+  return toAtom((): Loadable<T> => {
+    const state = resource.state();
+    if (state === "errored") {
+      return { state: "hasError", error: resource.error() };
+    }
+    if (state === "ready") {
+      return { state: "hasData", data: resource() as T };
+    }
+    return { state: "loading" };
+  });
+}
+
 /**
  * Alias for {@link createAsync}.
  *
@@ -1633,6 +4899,7 @@ export function reconcile<T>(
  * Creates an immutable reactive object store.
  *
  * @param initialValue Initial object state.
+ * @param options Optional root `equals` comparator and debug `name`.
  * @returns Tuple of `[storeProxy, setStore]`.
  *
  * @example
@@ -1641,85 +4908,460 @@ export function reconcile<T>(
  * setStore({ count: 1 })
  * ```
  */
-export function createStore<T extends object>(initialValue: T): [T, SetStore<T>] {
-  const scope = activeScope();
-  const source = new SignalSource(scope.store, initialValue);
-  const store = createReactiveProxy(source, false);
+export function createStore<T extends object>(
+  initialValue: T,
+  options?: StoreOptions<T>,
+): [T, SetStore<T>] {
+  const { store, setStore } = createStoreSource(initialValue, options);
+  return [store, setStore];
+}
+
+function createStoreSource<T extends object>(
+  initialValue: T,
+  options: StoreOptions<T> | undefined,
+): { store: T; setStore: SetStore<T>; source: SignalSource<T> } {
+  const owner = activeOwner();
+  const source = new SignalSource(owner.scope.store, initialValue, options);
+  inspectSignal(source, owner, "store");
+  owner.scope.adoptSource(source as SignalSource<unknown>, owner);
+  const store = createReactiveProxy(source, false);
+
+  const setStore: SetStore<T> = (next) => {
+    const previous = source.peek();
+    const resolved = typeof next === "function" ? (next as (prev: T) => T | Partial<T>)(previous) : next;
+    const merged =
+      isObjectLike(previous) && isObjectLike(resolved)
+        ? ({ ...(previous as object), ...(resolved as object) } as T)
+        : (resolved as T);
+    return source.set(merged);
+  };
+
+  return { store, setStore, source };
+}
+
+/**
+ * Alias for {@link createStore}.
+ *
+ * @example
+ * ```ts
+ * const [state, setState] = store({ count: 0 })
+ * ```
+ */
+export const store = createStore;
+
+/**
+ * Typo-friendly alias for {@link createStore}.
+ *
+ * @example
+ * ```ts
+ * const [state, setState] = sotre({ count: 0 })
+ * ```
+ */
+export const sotre = createStore;
+
+/**
+ * Creates a mutable reactive object.
+ *
+ * @param initialValue Initial object state.
+ * @param options Optional root `equals` comparator and debug `name`.
+ * @returns Mutable reactive proxy.
+ *
+ * @example
+ * ```ts
+ * const state = createMutable({ count: 0 })
+ * state.count += 1
+ * ```
+ */
+export function createMutable<T extends object>(initialValue: T, options?: StoreOptions<T>): T {
+  const owner = activeOwner();
+  const source = new SignalSource(owner.scope.store, initialValue, options);
+  inspectSignal(source, owner, "store");
+  owner.scope.adoptSource(source as SignalSource<unknown>, owner);
+  return createReactiveProxy(source, true);
+}
+
+/**
+ * Alias for {@link createMutable}.
+ *
+ * @example
+ * ```ts
+ * const state = mutable({ count: 0 })
+ * ```
+ */
+export const mutable = createMutable;
+
+/**
+ * Alias for {@link createMutable}.
+ *
+ * @param initialValue Initial object state.
+ * @param options Optional root `equals` comparator and debug `name`.
+ * @returns Mutable reactive proxy.
+ *
+ * @example
+ * ```ts
+ * const state = createMutableStore({ value: 1 })
+ * ```
+ */
+export function createMutableStore<T extends object>(initialValue: T, options?: StoreOptions<T>): T {
+  return createMutable(initialValue, options);
+}
+
+/**
+ * Storage backend for {@link createPersistedSignal} and {@link createPersistedStore}. Methods
+ * may be synchronous or return promises; `subscribe` reports changes made elsewhere (other tabs).
+ *
+ * @example
+ * ```ts
+ * const storage: PersistStorage = {
+ *   getItem: (key) => idb.get(key),
+ *   setItem: (key, value) => idb.set(key, value),
+ *   removeItem: (key) => idb.del(key),
+ * }
+ * ```
+ */
+export type PersistStorage = {
+  getItem(key: string): string | null | Promise<string | null>;
+  setItem(key: string, value: string): void | Promise<void>;
+  removeItem(key: string): void | Promise<void>;
+  subscribe?(key: string, callback: (value: string | null) => void): Unsubscribe;
+};
+
+/**
+ * What persisted signals write to storage, before `serialize`.
+ *
+ * @example
+ * ```ts
+ * const entry: PersistedValue<string> = { value: "dark", version: 1 }
+ * ```
+ */
+export type PersistedValue<T> = {
+  value: T;
+  version: number;
+};
+
+/**
+ * Options for {@link createPersistedSignal} and {@link createPersistedStore}.
+ *
+ * @example
+ * ```ts
+ * const options: PersistOptions<Settings> = { version: 2, migrate: (old) => upgrade(old) }
+ * ```
+ */
+export type PersistOptions<T> = {
+  /** Defaults to {@link createLocalStorage}. */
+  storage?: PersistStorage;
+  /** Defaults to `JSON.stringify`. */
+  serialize?: (persisted: PersistedValue<T>) => string;
+  /** Defaults to `JSON.parse`. */
+  deserialize?: (raw: string) => PersistedValue<unknown>;
+  /** Version written with every value. Defaults to `0`. */
+  version?: number;
+  /** Upgrades a value stored under another version; without it such values are ignored. */
+  migrate?: (persisted: unknown, version: number) => T;
+  /** Follow changes reported by `storage.subscribe` (e.g. other tabs). Defaults to `true`. */
+  sync?: boolean;
+};
+
+/**
+ * Extra controls returned by persisted signals and stores.
+ *
+ * @example
+ * ```tsx
+ * const [settings, setSettings, { hydrated }] = createPersistedSignal("settings", defaults, { storage })
+ * return () => (hydrated() ? <Form /> : <Spinner />)
+ * ```
+ */
+export type PersistControls = {
+  /** `true` once the stored value has been read (immediately for synchronous storage). */
+  hydrated: Accessor<boolean>;
+};
 
-  const setStore: SetStore<T> = (next) => {
-    const previous = source.peek();
-    const resolved = typeof next === "function" ? (next as (prev: T) => T | Partial<T>)(previous) : next;
-    const merged =
-      isObjectLike(previous) && isObjectLike(resolved)
-        ? ({ ...(previous as object), ...(resolved as object) } as T)
-        : (resolved as T);
-    return source.set(merged);
+function webStorage(area: () => Storage): PersistStorage {
+  return {
+    getItem: (key) => area().getItem(key),
+    setItem: (key, value) => {
+      area().setItem(key, value);
+    },
+    removeItem: (key) => {
+      area().removeItem(key);
+    },
+    subscribe: (key, callback) => {
+      const listener = (event: StorageEvent): void => {
+        if (event.storageArea === area() && (event.key === key || event.key === null)) {
+          callback(event.newValue);
+        }
+      };
+      window.addEventListener("storage", listener);
+      return () => {
+        window.removeEventListener("storage", listener);
+      };
+    },
   };
-
-  return [store, setStore];
 }
 
 /**
- * Alias for {@link createStore}.
+ * `localStorage` adapter, synced across tabs through the `storage` event.
+ *
+ * @returns Storage adapter.
  *
  * @example
  * ```ts
- * const [state, setState] = store({ count: 0 })
+ * createPersistedSignal("theme", "light", { storage: createLocalStorage() })
  * ```
  */
-export const store = createStore;
+export function createLocalStorage(): PersistStorage {
+  return webStorage(() => window.localStorage);
+}
 
 /**
- * Typo-friendly alias for {@link createStore}.
+ * `sessionStorage` adapter.
+ *
+ * @returns Storage adapter.
  *
  * @example
  * ```ts
- * const [state, setState] = sotre({ count: 0 })
+ * createPersistedSignal("draft", "", { storage: createSessionStorage() })
  * ```
  */
-export const sotre = createStore;
+export function createSessionStorage(): PersistStorage {
+  return webStorage(() => window.sessionStorage);
+}
 
 /**
- * Creates a mutable reactive object.
+ * In-memory adapter, for tests and SSR fallbacks. Signals sharing one instance stay in sync.
  *
- * @param initialValue Initial object state.
- * @returns Mutable reactive proxy.
+ * @param initialItems Raw entries to start with.
+ * @returns Storage adapter.
  *
  * @example
  * ```ts
- * const state = createMutable({ count: 0 })
- * state.count += 1
+ * const storage = createMemoryStorage({ theme: '{"value":"dark","version":0}' })
  * ```
  */
-export function createMutable<T extends object>(initialValue: T): T {
-  const scope = activeScope();
-  const source = new SignalSource(scope.store, initialValue);
-  return createReactiveProxy(source, true);
+export function createMemoryStorage(initialItems: Record<string, string> = {}): PersistStorage {
+  const items = new Map(Object.entries(initialItems));
+  const listeners = new Map<string, Set<(value: string | null) => void>>();
+  const notify = (key: string, value: string | null): void => {
+    for (const listener of Array.from(listeners.get(key) ?? [])) {
+      listener(value);
+    }
+  };
+
+  return {
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => {
+      items.set(key, value);
+      notify(key, value);
+    },
+    removeItem: (key) => {
+      items.delete(key);
+      notify(key, null);
+    },
+    subscribe: (key, callback) => {
+      const keyListeners = listeners.get(key) ?? new Set();
+      keyListeners.add(callback);
+      listeners.set(key, keyListeners);
+      return () => {
+        keyListeners.delete(callback);
+      };
+    },
+  };
+}
+
+/** Reads the initial entry, treating unavailable storage (SSR, privacy modes) as empty. */
+function readPersistStorage(
+  key: string,
+  options: PersistOptions<unknown>,
+): { storage: PersistStorage | null; raw: string | null | Promise<string | null> } {
+  if (isServerRuntime()) {
+    return { storage: null, raw: null };
+  }
+  try {
+    const storage = options.storage ?? createLocalStorage();
+    return { storage, raw: storage.getItem(key) };
+  } catch {
+    return { storage: null, raw: null };
+  }
+}
+
+function isPendingRead(raw: string | null | Promise<string | null>): raw is Promise<string | null> {
+  return typeof raw === "object" && raw !== null;
+}
+
+function parsePersisted<T>(raw: string | null, options: PersistOptions<T>): { value: T } | null {
+  if (raw === null) {
+    return null;
+  }
+  try {
+    const persisted = (options.deserialize ?? JSON.parse)(raw) as PersistedValue<unknown>;
+    if (persisted.version === (options.version ?? 0)) {
+      return { value: persisted.value as T };
+    }
+    return options.migrate ? { value: options.migrate(persisted.value, persisted.version) } : null;
+  } catch {
+    return null;
+  }
 }
 
 /**
- * Alias for {@link createMutable}.
+ * Keeps storage in step with `value`: writes every change, applies entries reported by the
+ * storage, and hydrates from an asynchronous first read unless the value changed meanwhile.
+ */
+function bindPersistence<T>(
+  key: string,
+  storage: PersistStorage | null,
+  initialRaw: string | null | Promise<string | null>,
+  initialValue: T,
+  value: Accessor<T>,
+  apply: (next: T) => void,
+  options: PersistOptions<T>,
+): PersistControls {
+  const pending = isPendingRead(initialRaw) ? initialRaw : null;
+  const [hydrated, setHydrated] = createInternalSignal(storage !== null && pending === null);
+  if (!storage) {
+    return { hydrated };
+  }
+
+  const version = options.version ?? 0;
+  const serialize = options.serialize ?? JSON.stringify;
+  let lastRaw = pending ? undefined : (initialRaw as string | null);
+  let changed = false;
+  let first = true;
+
+  // A failed write (quota, private mode) keeps the value in memory only. It is reported to an
+  // enclosing `catchError` / `ErrorBoundary` if there is one, and otherwise ignored like failed reads.
+  const owner = currentOwner();
+  const reportWriteError = (error: unknown): void => {
+    if (!owner?.lookupContext(ERROR_HANDLER)) {
+      return;
+    }
+    try {
+      handleError(owner, error);
+    } catch {
+      // The handler threw and nothing above caught it; async writes must not turn that into an
+      // unhandled rejection, so it is ignored like a write failure with no handler.
+    }
+  };
+
+  createComputed(() => {
+    const raw = serialize({ value: value(), version });
+    if (first) {
+      first = false;
+      // Nothing stored (or not read yet): leave storage alone until the value changes.
+      if (lastRaw === null || lastRaw === undefined) {
+        return;
+      }
+    } else {
+      changed = true;
+    }
+    if (raw !== lastRaw) {
+      lastRaw = raw;
+      try {
+        const written = storage.setItem(key, raw);
+        if (written) {
+          written.catch(reportWriteError);
+        }
+      } catch (error) {
+        reportWriteError(error);
+      }
+    }
+  });
+
+  const receive = (raw: string | null): void => {
+    if (raw === lastRaw) {
+      return;
+    }
+    const stored = parsePersisted(raw, options);
+    const next = stored ? stored.value : initialValue;
+    lastRaw = raw ?? serialize({ value: next, version });
+    apply(next);
+  };
+
+  if (pending) {
+    void pending
+      .catch(() => null)
+      .then((raw) => {
+        if (!changed) {
+          receive(raw);
+        }
+        setHydrated(true);
+      });
+  }
+
+  if (options.sync !== false && storage.subscribe) {
+    onCleanup(storage.subscribe(key, receive));
+  }
+
+  return { hydrated };
+}
+
+/**
+ * Creates a signal persisted under `key`. Synchronous storage is read before the signal is
+ * created, so the first render already shows the stored value; asynchronous storage starts at
+ * `initialValue` and hydrates unless the signal was written first. Changes are written back
+ * (including those from `restore` and history), and changes in other tabs are applied.
+ * On the server nothing touches storage.
+ *
+ * @param key Storage key.
+ * @param initialValue Value when nothing valid is stored.
+ * @param options Storage, serialization, `version` / `migrate`, plus signal `equals` and `name`.
+ * @returns `[get, set, { hydrated }]`.
  *
  * @example
  * ```ts
- * const state = mutable({ count: 0 })
+ * const [theme, setTheme] = createPersistedSignal("theme", "light")
  * ```
  */
-export const mutable = createMutable;
+export function createPersistedSignal<T>(
+  key: string,
+  initialValue: T,
+  options: PersistOptions<T> & SignalOptions<T> = {},
+): [Accessor<T>, Setter<T>, PersistControls] {
+  const { storage, raw } = readPersistStorage(key, options as PersistOptions<unknown>);
+  const stored = isPendingRead(raw) ? null : parsePersisted(raw, options);
+  const [value, setValue] = createSignal(stored ? stored.value : initialValue, {
+    equals: options.equals,
+    name: options.name,
+  });
+  const controls = bindPersistence(key, storage, raw, initialValue, value, (next) => setValue(() => next), options);
+  return [value, setValue, controls];
+}
 
 /**
- * Alias for {@link createMutable}.
+ * Persisted variant of {@link createStore}; see {@link createPersistedSignal}. Hydrated and
+ * synced values are applied with {@link reconcile}, so unchanged nested objects keep their identity.
  *
- * @param initialValue Initial object state.
- * @returns Mutable reactive proxy.
+ * @param key Storage key.
+ * @param initialValue State when nothing valid is stored.
+ * @param options Storage, serialization, `version` / `migrate`, plus store `equals` and `name`.
+ * @returns `[store, setStore, { hydrated }]`.
  *
  * @example
  * ```ts
- * const state = createMutableStore({ value: 1 })
+ * const [settings, setSettings] = createPersistedStore("settings", { fontSize: 14, theme: "light" })
  * ```
  */
-export function createMutableStore<T extends object>(initialValue: T): T {
-  return createMutable(initialValue);
+export function createPersistedStore<T extends object>(
+  key: string,
+  initialValue: T,
+  options: PersistOptions<T> & StoreOptions<T> = {},
+): [T, SetStore<T>, PersistControls] {
+  const { storage, raw } = readPersistStorage(key, options as PersistOptions<unknown>);
+  const stored = isPendingRead(raw) ? null : parsePersisted(raw, options);
+  const { store, setStore, source } = createStoreSource(stored ? stored.value : initialValue, {
+    equals: options.equals,
+    name: options.name,
+  });
+  const controls = bindPersistence(
+    key,
+    storage,
+    raw,
+    initialValue,
+    () => source.get(),
+    (next) => setStore(reconcile(next)),
+    options,
+  );
+  return [store, setStore, controls];
 }
 
 /**
@@ -2015,6 +5657,18 @@ type SetupResult = (() => React.ReactNode) | React.ReactNode;
 type SetupFn<Props> = (props: Accessor<Readonly<Props>>) => SetupResult;
 type SetupFnNoProps = () => SetupResult;
 
+/**
+ * Where a `component(...)` instance keeps its signals: `"isolated"` gives each instance its own
+ * Jotai store; `"provider"` uses the store of the nearest Jotai `Provider` (Jotai's default
+ * store outside any Provider), so Jotai hooks and devtools see the same state.
+ *
+ * @example
+ * ```ts
+ * configureRuntime({ componentStore: "provider" })
+ * ```
+ */
+export type ComponentStoreMode = "isolated" | "provider";
+
 /**
  * Options for wrapped `component(...)` React components.
  *
@@ -2026,6 +5680,16 @@ type SetupFnNoProps = () => SetupResult;
 export type ComponentOptions<Props> = {
   memo?: boolean | ((prev: Readonly<Props>, next: Readonly<Props>) => boolean);
   displayName?: string;
+  /**
+   * Records why each render happened. `true` prints every trace to the console; a function
+   * receives the traces instead. Traces also reach {@link onRenderTrace} listeners.
+   */
+  trace?: boolean | ((trace: RenderTrace) => void);
+  /**
+   * Jotai store for this component's signals. Defaults to the `componentStore` runtime setting.
+   * The store is picked when an instance is created.
+   */
+  store?: ComponentStoreMode;
 };
 
 /**
@@ -2038,11 +5702,21 @@ export type ComponentOptions<Props> = {
  */
 export type SolidComponent<Props> = React.ComponentType<Props>;
 
+/**
+ * Carries the nearest reactive owner through the React tree so setup code can
+ * resolve context across plain React components.
+ */
+const OwnerContext = React.createContext<OwnerNode | null>(null);
+
+const renderTraceListeners = new Set<(trace: RenderTrace) => void>();
+
 class ComponentInstance<Props> {
-  private readonly scope = new Scope();
+  readonly scope: Scope;
   private readonly propsSource: SignalSource<Props>;
   private readonly renderTracker: DependencyTracker;
   private readonly render: () => React.ReactNode;
+  private readonly tracing: boolean;
+  private renders = 0;
   private disposed = false;
   private suppressRenderInvalidation = false;
 
@@ -2050,16 +5724,35 @@ class ComponentInstance<Props> {
     initialProps: Props,
     setup: SetupFn<Props>,
     private readonly forceUpdate: () => void,
+    parentOwner: OwnerNode | null,
+    private readonly name: string,
+    private readonly onTrace: ((trace: RenderTrace) => void) | null,
+    store: Store | undefined,
   ) {
-    this.propsSource = new SignalSource(this.scope.store, initialProps);
-    this.renderTracker = new DependencyTracker(() => {
-      if (!this.suppressRenderInvalidation) {
+    this.scope = new Scope({ parent: parentOwner, store });
+    this.propsSource = new SignalSource(this.scope.store, initialProps, { name: "props" });
+    this.renderTracker = new DependencyTracker(
+      () => {
+        if (this.suppressRenderInvalidation) {
+          return;
+        }
+        if (activeTransition) {
+          activeTransition.deferRender(this.forceUpdate);
+          return;
+        }
         this.forceUpdate();
-      }
-    });
+      },
+      { priority: RENDER_QUEUE, label: describeComputation("component", name), owner: this.scope },
+    );
     this.scope.register(this.renderTracker);
+    inspectScope(this.scope, "component", name, this.renderTracker);
+    inspectSignal(this.propsSource, this.scope, "signal");
+    this.tracing = Boolean(onTrace) || runtimeConfig.traceRenders;
+    if (this.tracing) {
+      this.renderTracker.traceCauses();
+    }
 
-    const result = withScope(this.scope, () =>
+    const result = withOwner(this.scope, () =>
       setup(() => this.propsSource.get()),
     );
 
@@ -2079,7 +5772,17 @@ class ComponentInstance<Props> {
   }
 
   renderNode(): React.ReactNode {
-    return withScope(this.scope, () => this.renderTracker.collect(this.render));
+    this.renders += 1;
+    const finishProfiling = startProfiling("component", this.renderTracker.label);
+    try {
+      return withOwner(this.scope, () => this.renderTracker.collect(this.render));
+    } finally {
+      finishProfiling?.();
+      if (this.tracing) {
+        // After collecting, so memos first pulled by this render are included.
+        this.emitTrace();
+      }
+    }
   }
 
   startLayoutEffects(): void {
@@ -2097,6 +5800,18 @@ class ComponentInstance<Props> {
     this.disposed = true;
     this.scope.dispose();
   }
+
+  private emitTrace(): void {
+    const trace: RenderTrace = {
+      component: this.name,
+      render: this.renders,
+      causes: this.renderTracker.takeCauses(),
+    };
+    this.onTrace?.(trace);
+    for (const listener of renderTraceListeners) {
+      listener(trace);
+    }
+  }
 }
 
 /**
@@ -2144,10 +5859,21 @@ export function component<Props>(
       setTick((tick: number) => tick + 1);
     }, []);
 
+    const parentOwner = React.useContext(OwnerContext);
+    const providerStore = useJotaiStore();
     const instanceRef = React.useRef<ComponentInstance<Props> | null>(null);
 
     if (!instanceRef.current) {
-      instanceRef.current = new ComponentInstance(props, normalizedSetup, forceUpdate);
+      const store = (options.store ?? runtimeConfig.componentStore) === "provider" ? providerStore : undefined;
+      instanceRef.current = new ComponentInstance(
+        props,
+        normalizedSetup,
+        forceUpdate,
+        parentOwner,
+        name,
+        onTrace,
+        store,
+      );
     }
 
     const instance = instanceRef.current;
@@ -2164,11 +5890,21 @@ export function component<Props>(
       instance.startEffects();
     }, [instance]);
 
-    return <>{instance.renderNode()}</>;
+    return (
+      <OwnerContext.Provider value={instance.scope}>
+        {instance.renderNode()}
+      </OwnerContext.Provider>
+    );
   };
 
   const name = options.displayName ?? setup.name ?? "SolidLikeComponent";
   Wrapped.displayName = name;
+  const onTrace =
+    options.trace === true
+      ? printRenderTrace
+      : typeof options.trace === "function"
+        ? options.trace
+        : null;
 
   if (!options.memo) {
     return Wrapped;
@@ -2192,6 +5928,252 @@ export function component<Props>(
  */
 export const defineComponent = component;
 
+/**
+ * One change that caused a traced render.
+ *
+ * @example
+ * ```ts
+ * const cause: RenderCause = { source: 'signal "count"', previous: 1, next: 2 }
+ * ```
+ */
+export type RenderCause = {
+  /** Source that changed, e.g. `signal "count"`, `memo "total"`, or `signal "props"`. */
+  source: string;
+  previous: unknown;
+  next: unknown;
+  /** Stack of the write, for signals and stores. */
+  stack?: string;
+};
+
+/**
+ * Why a traced `component(...)` rendered. The first render and renders React started
+ * on its own (e.g. a parent re-render with unchanged props) have no causes.
+ *
+ * @example
+ * ```ts
+ * const View = component(setup, { trace: (trace: RenderTrace) => traces.push(trace) })
+ * ```
+ */
+export type RenderTrace = {
+  component: string;
+  /** 1-based render count of this component instance. */
+  render: number;
+  causes: RenderCause[];
+};
+
+/**
+ * Listens to the render traces of every traced component: those created with the `trace`
+ * option, or all components while `configureRuntime({ traceRenders: true })` is set.
+ *
+ * @param listener Receives each trace once its render function has run.
+ * @returns Function removing the listener.
+ *
+ * @example
+ * ```ts
+ * configureRuntime({ traceRenders: true })
+ * const stop = onRenderTrace((trace) => console.log(formatRenderTrace(trace)))
+ * ```
+ */
+export function onRenderTrace(listener: (trace: RenderTrace) => void): () => void {
+  renderTraceListeners.add(listener);
+  return () => {
+    renderTraceListeners.delete(listener);
+  };
+}
+
+/**
+ * Formats a render trace as readable multi-line text.
+ *
+ * @param trace Trace to format.
+ * @returns Text such as `<Counter> render #2` followed by one line per cause and its write stack.
+ *
+ * @example
+ * ```ts
+ * onRenderTrace((trace) => console.log(formatRenderTrace(trace)))
+ * ```
+ */
+export function formatRenderTrace(trace: RenderTrace): string {
+  const lines = [`<${trace.component}> render #${trace.render}`];
+  if (trace.causes.length === 0) {
+    lines.push(trace.render === 1 ? "  initial render" : "  no reactive cause");
+  }
+  for (const cause of trace.causes) {
+    lines.push(`  ${cause.source}: ${previewGraphValue(cause.previous)} -> ${previewGraphValue(cause.next)}`);
+    if (cause.stack) {
+      lines.push(...cause.stack.split("\n").map((frame) => `    ${frame.trim()}`));
+    }
+  }
+  return lines.join("\n");
+}
+
+function printRenderTrace(trace: RenderTrace): void {
+  console.log(formatRenderTrace(trace));
+}
+
+/**
+ * Props accepted by a context `Provider`.
+ *
+ * @example
+ * ```tsx
+ * <ThemeContext.Provider value={theme}>{children}</ThemeContext.Provider>
+ * ```
+ */
+export type ContextProviderProps<T> = {
+  value: T;
+  children?: React.ReactNode;
+};
+
+/**
+ * Context handle returned by {@link createContext}.
+ *
+ * @example
+ * ```ts
+ * const ThemeContext: Context<Accessor<string>> = createContext(() => "light")
+ * ```
+ */
+export type Context<T> = {
+  readonly id: symbol;
+  readonly defaultValue: T;
+  readonly Provider: React.FC<ContextProviderProps<T>>;
+};
+
+/**
+ * Creates a context that flows from a `Provider` to `component(...)` setups below it,
+ * including through plain React components in between.
+ *
+ * Values are read once in setup like Solid; pass an accessor or store for reactive values.
+ *
+ * @param defaultValue Value returned by {@link useContext} when no Provider is found.
+ * @returns Context handle with a JSX `Provider`.
+ *
+ * @example
+ * ```tsx
+ * const CounterContext = createContext({ count: (): number => 0 })
+ *
+ * <CounterContext.Provider value={{ count }}>
+ *   <Child />
+ * </CounterContext.Provider>
+ * ```
+ */
+export function createContext<T>(defaultValue: T): Context<T>;
+export function createContext<T>(): Context<T | undefined>;
+export function createContext<T>(defaultValue?: T): Context<T | undefined> {
+  const id = Symbol("context");
+
+  const Provider: React.FC<ContextProviderProps<T | undefined>> = (props) => {
+    const parentOwner = React.useContext(OwnerContext);
+    const owner = React.useMemo(() => new OwnerNode(parentOwner), [parentOwner]);
+    owner.provideContext(id, props.value);
+
+    return (
+      <OwnerContext.Provider value={owner}>
+        {props.children}
+      </OwnerContext.Provider>
+    );
+  };
+  Provider.displayName = "ContextProvider";
+
+  return { id, defaultValue, Provider };
+}
+
+/**
+ * Reads the nearest provided value of a context from setup, render, or any owned computation.
+ *
+ * @param context Context created by {@link createContext}.
+ * @returns Nearest provided value, or the context default.
+ *
+ * @example
+ * ```ts
+ * const Child = component(() => {
+ *   const { count } = useContext(CounterContext)
+ *   return () => <p>{count()}</p>
+ * })
+ * ```
+ */
+export function useContext<T>(context: Context<T>): T {
+  const found = currentOwner()?.lookupContext(context.id);
+  return found ? (found.value as T) : context.defaultValue;
+}
+
+/**
+ * Props for {@link ErrorBoundary}.
+ *
+ * @example
+ * ```tsx
+ * <ErrorBoundary fallback={(error, reset) => <button onClick={reset}>{String(error)}</button>}>
+ *   <Profile />
+ * </ErrorBoundary>
+ * ```
+ */
+export type ErrorBoundaryProps = {
+  /** Content, or render function receiving the error and a `reset` callback that remounts children. */
+  fallback: React.ReactNode | ((error: unknown, reset: () => void) => React.ReactNode);
+  children?: React.ReactNode;
+};
+
+type ErrorBoundaryState = {
+  error: { value: unknown } | null;
+  resetKey: number;
+};
+
+class ErrorBoundaryComponent extends React.Component<ErrorBoundaryProps, ErrorBoundaryState> {
+  static contextType = OwnerContext;
+  declare context: OwnerNode | null;
+
+  state: ErrorBoundaryState = { error: null, resetKey: 0 };
+
+  private owner: OwnerNode | null = null;
+  private ownerParent: OwnerNode | null = null;
+
+  static getDerivedStateFromError(error: unknown): Partial<ErrorBoundaryState> {
+    return { error: { value: error } };
+  }
+
+  private readonly reset = (): void => {
+    this.setState((previous) => ({ error: null, resetKey: previous.resetKey + 1 }));
+  };
+
+  private resolveOwner(): OwnerNode {
+    if (!this.owner || this.ownerParent !== this.context) {
+      this.ownerParent = this.context;
+      this.owner = createErrorOwner(this.context, (error) => {
+        this.setState({ error: { value: error } });
+      });
+    }
+    return this.owner;
+  }
+
+  render(): React.ReactNode {
+    const { error, resetKey } = this.state;
+    if (error) {
+      const { fallback } = this.props;
+      return typeof fallback === "function" ? fallback(error.value, this.reset) : fallback;
+    }
+
+    return (
+      <OwnerContext.Provider value={this.resolveOwner()}>
+        <React.Fragment key={resetKey}>{this.props.children}</React.Fragment>
+      </OwnerContext.Provider>
+    );
+  }
+}
+
+/**
+ * Catches errors thrown while rendering children and errors from effects created in
+ * `component(...)` setups below it, then renders `fallback`.
+ *
+ * @param props Error boundary props.
+ * @returns Children, or the fallback after an error.
+ *
+ * @example
+ * ```tsx
+ * <ErrorBoundary fallback={(error, reset) => <Retry error={error} onRetry={reset} />}>
+ *   <Dashboard />
+ * </ErrorBoundary>
+ * ```
+ */
+export const ErrorBoundary: React.ComponentType<ErrorBoundaryProps> = ErrorBoundaryComponent;
+
 /**
  * Utility union type accepted by control-flow primitives.
  *
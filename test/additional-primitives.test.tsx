@@ -1,24 +1,61 @@
 import * as React from "react";
 import { cleanup, fireEvent, render, screen, waitFor } from "@testing-library/react";
-import { afterEach, describe, expect, it } from "vitest";
+import { afterEach, describe, expect, it, vi } from "vitest";
 import {
+  catchError,
   children,
   component,
+  createDebounced,
   createDeferred,
+  createEventListener,
+  createInterval,
+  createMemoryStorage,
+  createNow,
+  createPersistedSignal,
+  createPersistedStore,
   createRoot,
   createSignal,
   createStore,
+  createThrottled,
+  createTimeout,
   createUniqueId,
+  fromAsyncIterable,
+  fromEvent,
+  fromReadableStream,
   mergeProps,
   produce,
   reconcile,
   splitProps,
+  toAsyncIterable,
+  toReadableStream,
 } from "../src/index";
 
 afterEach(() => {
   cleanup();
 });
 
+class TestEmitter {
+  private listeners = new Map<string, Set<(event: unknown) => void>>();
+
+  on(type: string, listener: (event: unknown) => void): this {
+    this.listeners.set(type, (this.listeners.get(type) ?? new Set()).add(listener));
+    return this;
+  }
+
+  removeListener(type: string, listener: (event: unknown) => void): this {
+    this.listeners.get(type)?.delete(listener);
+    return this;
+  }
+
+  emit(type: string, event: unknown): void {
+    this.listeners.get(type)?.forEach((listener) => listener(event));
+  }
+
+  listenerCount(type: string): number {
+    return this.listeners.get(type)?.size ?? 0;
+  }
+}
+
 describe("additional primitives", () => {
   it("supports createDeferred updates", async () => {
     const App = component(() => {
@@ -45,6 +82,376 @@ describe("additional primitives", () => {
     });
   });
 
+  it("schedules idle deferred updates with timeoutMs as the latency cap", () => {
+    vi.useFakeTimers();
+    const idle: Array<{ callback: () => void; timeout?: number }> = [];
+    vi.stubGlobal("requestIdleCallback", (callback: () => void, options?: { timeout?: number }) =>
+      idle.push({ callback, timeout: options?.timeout }));
+    vi.stubGlobal("cancelIdleCallback", vi.fn());
+    try {
+      const { setValue, deferred, dispose } = createRoot((dispose) => {
+        const [value, setValue] = createSignal("a");
+        return { setValue, deferred: createDeferred(value, { idle: true, timeoutMs: 200 }), dispose };
+      });
+
+      setValue("b");
+      setValue("c");
+      expect(idle).toHaveLength(1);
+      expect(idle[0]!.timeout).toBe(200);
+      expect(deferred()).toBe("a");
+
+      idle[0]!.callback();
+      expect(deferred()).toBe("c");
+      dispose();
+
+      vi.unstubAllGlobals();
+      const fallback = createRoot((dispose) => {
+        const [value, setValue] = createSignal(1);
+        return { setValue, deferred: createDeferred(value, { idle: true, timeoutMs: 500 }), dispose };
+      });
+      fallback.setValue(2);
+      expect(fallback.deferred()).toBe(1);
+      vi.advanceTimersByTime(0);
+      expect(fallback.deferred()).toBe(2);
+      fallback.dispose();
+    } finally {
+      vi.unstubAllGlobals();
+      vi.useRealTimers();
+    }
+  });
+
+  it("iterates accessor changes and streams them both ways", async () => {
+    const { setCount, values, counts, dispose } = createRoot((dispose) => {
+      const [count, setCount] = createSignal(0);
+      return { setCount, values: toAsyncIterable(count), counts: toReadableStream(count), dispose };
+    });
+
+    const seen: number[] = [];
+    const loop = (async () => {
+      for await (const value of values) {
+        seen.push(value);
+        if (value === 2) {
+          break;
+        }
+      }
+    })();
+    setCount(1);
+    setCount(2);
+    await loop;
+    expect(seen).toEqual([0, 1, 2]);
+
+    const reader = counts.getReader();
+    const streamed: Array<number | undefined> = [];
+    for (let index = 0; index < 3; index += 1) {
+      streamed.push((await reader.read()).value);
+    }
+    expect(streamed).toEqual([0, 1, 2]);
+    setCount(3);
+    expect(await reader.read()).toEqual({ done: false, value: 3 });
+
+    async function* words() {
+      yield "a";
+      yield "b";
+    }
+    let cancelled = false;
+    const stream = new ReadableStream<number>({
+      start(controller) {
+        controller.enqueue(7);
+      },
+      cancel() {
+        cancelled = true;
+      },
+    });
+
+    const fromSources = createRoot((dispose) => ({
+      word: fromAsyncIterable(words(), ""),
+      chunk: fromReadableStream(stream),
+      dispose,
+    }));
+    expect(fromSources.word()).toBe("");
+    await waitFor(() => {
+      expect(fromSources.word()).toBe("b");
+      expect(fromSources.chunk()).toBe(7);
+    });
+
+    fromSources.dispose();
+    await waitFor(() => expect(cancelled).toBe(true));
+
+    const pending = values[Symbol.asyncIterator]();
+    expect(await pending.next()).toEqual({ done: false, value: 3 });
+    const next = pending.next();
+    dispose();
+    expect(await next).toEqual({ done: true, value: undefined });
+    expect(await reader.read()).toEqual({ done: true, value: undefined });
+  });
+
+  it("routes async iterable failures to catchError or to readers and closes the iterator", async () => {
+    let returned = 0;
+    const failing = (message: string): AsyncIterable<number> => ({
+      [Symbol.asyncIterator]: () => {
+        let step = 0;
+        return {
+          next: async () => {
+            step += 1;
+            if (step === 1) {
+              return { done: false, value: 1 };
+            }
+            throw new Error(message);
+          },
+          return: async () => {
+            returned += 1;
+            return { done: true, value: undefined };
+          },
+        };
+      },
+    });
+    const errors: string[] = [];
+
+    const root = createRoot((dispose) => ({
+      caught: catchError(() => fromAsyncIterable(failing("caught"), 0), (error) => {
+        errors.push((error as Error).message);
+      })!,
+      unhandled: fromAsyncIterable(failing("unhandled"), 0),
+      dispose,
+    }));
+
+    await waitFor(() => expect(errors).toEqual(["caught"]));
+    expect(root.caught()).toBe(1);
+    await waitFor(() => expect(() => root.unhandled()).toThrow("unhandled"));
+    expect(returned).toBe(2);
+
+    root.dispose();
+    expect(returned).toBe(2);
+  });
+
+  it("listens to DOM targets from refs and rebinds when the target changes", () => {
+    const App = component(() => {
+      const [clicks, setClicks] = createSignal<string[]>([]);
+      const [useSecond, setUseSecond] = createSignal(false);
+      let first: HTMLButtonElement | null = null;
+      let second: HTMLButtonElement | null = null;
+
+      createEventListener(
+        () => (useSecond() ? second : first),
+        "click",
+        (event: MouseEvent) => setClicks((list) => [...list, (event.currentTarget as HTMLElement).dataset.testid!]),
+      );
+
+      return () => (
+        <div>
+          <button data-testid="first" ref={(element) => { first = element; }}>first</button>
+          <button data-testid="second" ref={(element) => { second = element; }}>second</button>
+          <button data-testid="switch" onClick={() => setUseSecond(true)}>switch</button>
+          <span data-testid="clicks">{clicks().join(",")}</span>
+        </div>
+      );
+    });
+
+    const { unmount } = render(<App />);
+    fireEvent.click(screen.getByTestId("first"));
+    fireEvent.click(screen.getByTestId("second"));
+    fireEvent.click(screen.getByTestId("switch"));
+    fireEvent.click(screen.getByTestId("first"));
+    fireEvent.click(screen.getByTestId("second"));
+
+    expect(screen.getByTestId("clicks").textContent).toBe("first,second");
+    unmount();
+  });
+
+  it("maps the latest emitter event into an accessor and unsubscribes on dispose", () => {
+    const emitter = new TestEmitter();
+
+    const button = document.createElement("button");
+    const { status, firstClick, dispose } = createRoot((dispose) => ({
+      status: fromEvent(emitter, "status", (event: { code: number }) => event.code, 0),
+      firstClick: fromEvent(button, "click", (event: MouseEvent) => event.detail, 0, { once: true }),
+      dispose,
+    }));
+
+    expect(status()).toBe(0);
+    emitter.emit("status", { code: 200 });
+    expect(status()).toBe(200);
+
+    fireEvent.click(button, { detail: 1 });
+    fireEvent.click(button, { detail: 2 });
+    expect(firstClick()).toBe(1);
+
+    dispose();
+    expect(emitter.listenerCount("status")).toBe(0);
+  });
+
+  it("debounces and throttles source changes on fake timers", () => {
+    vi.useFakeTimers();
+    try {
+      const { setQuery, debounced, leading, capped, throttled, leadingOnly, dispose } = createRoot((dispose) => {
+        const [query, setQuery] = createSignal("");
+        return {
+          setQuery,
+          debounced: createDebounced(query, 100),
+          leading: createDebounced(query, 100, { leading: true, trailing: false }),
+          capped: createDebounced(query, 100, { maxWait: 150 }),
+          throttled: createThrottled(query, 100),
+          leadingOnly: createThrottled(query, 100, { trailing: false }),
+          dispose,
+        };
+      });
+
+      setQuery("a");
+      expect([debounced(), leading(), capped(), throttled()]).toEqual(["", "a", "", "a"]);
+      expect(leadingOnly()).toBe("a");
+
+      vi.advanceTimersByTime(60);
+      setQuery("ab");
+      vi.advanceTimersByTime(60);
+      setQuery("abc");
+      expect([debounced(), leading(), capped(), throttled()]).toEqual(["", "a", "", "ab"]);
+      expect(leadingOnly()).toBe("abc");
+
+      vi.advanceTimersByTime(40);
+      expect([debounced(), capped(), throttled()]).toEqual(["", "abc", "ab"]);
+
+      vi.advanceTimersByTime(60);
+      expect([debounced(), leading(), capped(), throttled()]).toEqual(["abc", "a", "abc", "abc"]);
+      expect(leadingOnly()).toBe("abc");
+
+      setQuery("x");
+      dispose();
+      vi.advanceTimersByTime(200);
+      expect(debounced()).toBe("abc");
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("runs timeouts, intervals and clocks until their owner is disposed", () => {
+    vi.useFakeTimers();
+    try {
+      const calls: string[] = [];
+      const { setDelay, now, dispose } = createRoot((dispose) => {
+        const [delay, setDelay] = createSignal<number | false>(100);
+        createTimeout(() => calls.push("timeout"), 250);
+        createInterval(() => calls.push("tick"), delay);
+        return { setDelay, now: createNow(1000), dispose };
+      });
+      const start = now();
+
+      vi.advanceTimersByTime(300);
+      expect(calls).toEqual(["tick", "tick", "timeout", "tick"]);
+
+      setDelay(false);
+      vi.advanceTimersByTime(300);
+      expect(calls).toHaveLength(4);
+
+      setDelay(50);
+      vi.advanceTimersByTime(100);
+      expect(calls).toHaveLength(6);
+      expect(now()).toBe(start);
+
+      vi.advanceTimersByTime(600);
+      expect(now()).toBe(start + 1000);
+
+      dispose();
+      vi.advanceTimersByTime(2000);
+      expect(calls).toHaveLength(18);
+      expect(now()).toBe(start + 1000);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("persists signals and stores, migrating, syncing tabs and hydrating async storage", async () => {
+    const storage = createMemoryStorage({
+      theme: JSON.stringify({ value: "dark", version: 0 }),
+      layout: JSON.stringify({ value: { columns: 2 }, version: 1 }),
+    });
+    localStorage.setItem("tabs", JSON.stringify({ value: 1, version: 0 }));
+    let resolveRead!: (raw: string | null) => void;
+    const asyncStorage = {
+      getItem: () => new Promise<string | null>((resolve) => { resolveRead = resolve; }),
+      setItem: vi.fn(),
+      removeItem: vi.fn(),
+    };
+
+    const root = createRoot((dispose) => {
+      const [theme, setTheme] = createPersistedSignal("theme", "light", { storage });
+      const [layout, setLayout] = createPersistedStore("layout", { columns: 1, dense: false }, {
+        storage,
+        version: 2,
+        migrate: (old, version) => ({ ...(old as { columns: number }), dense: version < 2 }),
+      });
+      const [tabs] = createPersistedSignal("tabs", 0);
+      const [remote, , { hydrated }] = createPersistedSignal("remote", "default", { storage: asyncStorage });
+      return { theme, setTheme, layout, setLayout, tabs, remote, hydrated, dispose };
+    });
+
+    expect(root.theme()).toBe("dark");
+    expect(root.layout).toMatchObject({ columns: 2, dense: true });
+    expect(storage.getItem("layout")).toBe(JSON.stringify({ value: { columns: 2, dense: true }, version: 2 }));
+
+    root.setTheme("sepia");
+    root.setLayout({ columns: 3 });
+    expect(storage.getItem("theme")).toBe(JSON.stringify({ value: "sepia", version: 0 }));
+    expect(JSON.parse(storage.getItem("layout") as string).value).toEqual({ columns: 3, dense: true });
+
+    storage.setItem("theme", JSON.stringify({ value: "high-contrast", version: 0 }));
+    expect(root.theme()).toBe("high-contrast");
+
+    expect(root.tabs()).toBe(1);
+    const raw = JSON.stringify({ value: 2, version: 0 });
+    localStorage.setItem("tabs", raw);
+    window.dispatchEvent(new StorageEvent("storage", { key: "tabs", newValue: raw, storageArea: localStorage }));
+    expect(root.tabs()).toBe(2);
+
+    expect([root.remote(), root.hydrated()]).toEqual(["default", false]);
+    resolveRead(JSON.stringify({ value: "stored", version: 0 }));
+    await waitFor(() => {
+      expect([root.remote(), root.hydrated()]).toEqual(["stored", true]);
+    });
+    expect(asyncStorage.setItem).not.toHaveBeenCalled();
+
+    root.dispose();
+    localStorage.removeItem("tabs");
+  });
+
+  it("reports failed persisted writes to catchError and otherwise keeps the value in memory", async () => {
+    const errors: string[] = [];
+    const quotaStorage = {
+      getItem: () => null,
+      setItem: () => {
+        throw new Error("quota");
+      },
+      removeItem: () => {},
+    };
+    const rejectingStorage = {
+      getItem: () => null,
+      setItem: async () => {
+        throw new Error("rejected");
+      },
+      removeItem: () => {},
+    };
+
+    const root = createRoot((dispose) => {
+      const [draft, setDraft] = createPersistedSignal("draft", "", { storage: quotaStorage });
+      const setRemote = catchError(() => createPersistedSignal("remote", "", { storage: rejectingStorage })[1], (error) => {
+        errors.push((error as Error).message);
+      })!;
+      const setStrict = catchError(() => createPersistedSignal("strict", "", { storage: rejectingStorage })[1], (error) => {
+        errors.push(`strict:${(error as Error).message}`);
+        throw error;
+      })!;
+      return { draft, setDraft, setRemote, setStrict, dispose };
+    });
+
+    expect(() => root.setDraft("hello")).not.toThrow();
+    expect(root.draft()).toBe("hello");
+    root.setRemote("sent");
+    await waitFor(() => expect(errors).toEqual(["rejected"]));
+    root.setStrict("sent");
+    await waitFor(() => expect(errors).toEqual(["rejected", "strict:rejected"]));
+
+    root.dispose();
+  });
+
   it("supports mergeProps and splitProps", () => {
     const merged = mergeProps({ a: 1, b: 1 }, { b: 2, c: 3 }, { c: 4 });
     expect(merged.a).toBe(1);
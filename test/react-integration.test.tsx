@@ -1,15 +1,31 @@
 import * as React from "react";
-import { cleanup, fireEvent, render, screen, waitFor } from "@testing-library/react";
+import { act, cleanup, fireEvent, render, screen, waitFor } from "@testing-library/react";
+import { Provider as JotaiProvider, useAtom, useAtomValue } from "jotai/react";
+import { atom, createStore as createJotaiStore } from "jotai/vanilla";
 import { afterEach, describe, expect, it } from "vitest";
 import {
+  ErrorBoundary,
   Suspense,
   component,
+  configureRuntime,
+  createContext,
   createEffect,
   createMemo,
+  createResource,
+  createRoot,
   createSignal,
+  formatRenderTrace,
+  fromAtom,
   onCleanup,
   onMount,
+  toAtom,
+  toWritableAtom,
   use,
+  useContext,
+  useTransition,
+  type Accessor,
+  type RenderTrace,
+  type ResourceAccessor,
 } from "../src/index";
 
 afterEach(() => {
@@ -211,4 +227,256 @@ describe("react integration", () => {
     expect(screen.getByTestId("counter-a").textContent).toBe("a:1");
     expect(screen.getByTestId("counter-b").textContent).toBe("b:0");
   });
+
+  it("traces the signal and memo changes behind each render", () => {
+    const traces: RenderTrace[] = [];
+
+    const Counter = component(() => {
+      const [count, setCount] = createSignal(0, { name: "count" });
+      const parity = createMemo(() => (count() % 2 === 0 ? "even" : "odd"), { name: "parity" });
+      return () => (
+        <button data-testid="traced" onClick={() => setCount((n) => n + 1)}>
+          {count()}:{parity()}
+        </button>
+      );
+    }, { displayName: "Counter", trace: (trace) => traces.push(trace) });
+
+    render(<Counter />);
+    fireEvent.click(screen.getByTestId("traced"));
+
+    expect(screen.getByTestId("traced").textContent).toBe("1:odd");
+    expect(traces.map((trace) => trace.render)).toEqual([1, 2]);
+    expect(traces[0]!.causes).toEqual([]);
+
+    const [signalCause, memoCause] = traces[1]!.causes;
+    expect(signalCause).toMatchObject({ source: 'signal "count"', previous: 0, next: 1 });
+    expect(signalCause!.stack).toContain("react-integration.test.tsx");
+    expect(memoCause).toEqual({ source: 'memo "parity"', previous: "even", next: "odd" });
+    expect(formatRenderTrace({ ...traces[1]!, causes: [memoCause!] })).toBe(
+      '<Counter> render #2\n  memo "parity": "even" -> "odd"',
+    );
+  });
+
+  it("exposes signals and memos to plain Jotai hooks as atoms", () => {
+    const [count, setCount] = createSignal(1);
+    const countAtom = toWritableAtom([count, setCount]);
+    const doubledAtom = toAtom(createMemo(() => count() * 2));
+
+    const Plain = () => {
+      const [value, setValue] = useAtom(countAtom);
+      const doubled = useAtomValue(doubledAtom);
+      return (
+        <button data-testid="atom-inc" onClick={() => setValue((n) => n + 1)}>
+          {value}:{doubled}
+        </button>
+      );
+    };
+
+    render(
+      <JotaiProvider>
+        <Plain />
+      </JotaiProvider>,
+    );
+    expect(screen.getByTestId("atom-inc").textContent).toBe("1:2");
+
+    fireEvent.click(screen.getByTestId("atom-inc"));
+    expect(count()).toBe(2);
+    expect(screen.getByTestId("atom-inc").textContent).toBe("2:4");
+
+    act(() => {
+      setCount(5);
+    });
+    expect(screen.getByTestId("atom-inc").textContent).toBe("5:10");
+  });
+
+  it("keeps component and root state in the nearest Jotai Provider store when asked", () => {
+    const store = createJotaiStore();
+    const themeAtom = atom("light");
+    store.set(themeAtom, "dark");
+
+    const Shared = component(() => {
+      const [theme] = fromAtom(themeAtom);
+      const nested = createRoot(() => fromAtom(themeAtom)[0]);
+      return () => <span data-testid="shared-theme">{theme()}/{nested()}</span>;
+    }, { store: "provider" });
+
+    const Isolated = component(() => {
+      const [theme] = fromAtom(themeAtom);
+      return () => <span data-testid="isolated-theme">{theme()}</span>;
+    }, { store: "isolated" });
+
+    const Global = component(() => {
+      const [theme] = fromAtom(themeAtom);
+      return () => <span data-testid="global-theme">{theme()}</span>;
+    });
+
+    configureRuntime({ componentStore: "provider" });
+    try {
+      render(
+        <JotaiProvider store={store}>
+          <Shared />
+          <Isolated />
+          <Global />
+        </JotaiProvider>,
+      );
+    } finally {
+      configureRuntime({ componentStore: "isolated" });
+    }
+
+    expect(screen.getByTestId("shared-theme").textContent).toBe("dark/dark");
+    expect(screen.getByTestId("global-theme").textContent).toBe("dark");
+    expect(screen.getByTestId("isolated-theme").textContent).toBe("light");
+
+    act(() => {
+      store.set(themeAtom, "sepia");
+    });
+    expect(screen.getByTestId("shared-theme").textContent).toBe("sepia/sepia");
+
+    const root = createRoot((dispose) => ({ theme: fromAtom(themeAtom)[0], dispose }), { store });
+    expect(root.theme()).toBe("sepia");
+    root.dispose();
+  });
+
+  it("resolves context through plain React components between component() wrappers", () => {
+    const CountContext = createContext<{ count: () => number; label: string }>({ count: () => -1, label: "default" });
+
+    const Leaf = component(() => {
+      const { count, label } = useContext(CountContext);
+      return () => <span data-testid="leaf">{label}:{count()}</span>;
+    });
+
+    const Fallback = component(() => {
+      const { label } = useContext(CountContext);
+      return () => <span data-testid="fallback">{label}</span>;
+    });
+
+    const Plain = (props: { children: React.ReactNode }) => <section>{props.children}</section>;
+
+    const App = component(() => {
+      const [count, setCount] = createSignal(1);
+
+      return () => (
+        <div>
+          <button data-testid="ctx-inc" onClick={() => setCount((n) => n + 1)}>inc</button>
+          <CountContext.Provider value={{ count, label: "provided" }}>
+            <Plain>
+              <Leaf />
+            </Plain>
+          </CountContext.Provider>
+        </div>
+      );
+    });
+
+    render(
+      <>
+        <App />
+        <Fallback />
+      </>,
+    );
+
+    expect(screen.getByTestId("leaf").textContent).toBe("provided:1");
+    expect(screen.getByTestId("fallback").textContent).toBe("default");
+
+    fireEvent.click(screen.getByTestId("ctx-inc"));
+    expect(screen.getByTestId("leaf").textContent).toBe("provided:2");
+  });
+
+  it("catches reactive effect errors in ErrorBoundary and remounts on reset", async () => {
+    let setups = 0;
+
+    const Risky = component(() => {
+      setups += 1;
+      const [value, setValue] = createSignal(0);
+
+      createEffect(() => {
+        if (value() > 0) {
+          throw new Error(`effect failed at ${value()}`);
+        }
+      });
+
+      return () => (
+        <button data-testid="risky" onClick={() => setValue((n) => n + 1)}>
+          {value()}
+        </button>
+      );
+    });
+
+    render(
+      <ErrorBoundary
+        fallback={(error, reset) => (
+          <button data-testid="reset" onClick={reset}>
+            {(error as Error).message}
+          </button>
+        )}
+      >
+        <Risky />
+      </ErrorBoundary>,
+    );
+
+    await waitFor(() => {
+      expect(screen.getByTestId("risky").textContent).toBe("0");
+    });
+
+    fireEvent.click(screen.getByTestId("risky"));
+    await waitFor(() => {
+      expect(screen.getByTestId("reset").textContent).toBe("effect failed at 1");
+    });
+
+    fireEvent.click(screen.getByTestId("reset"));
+    expect(screen.getByTestId("risky").textContent).toBe("0");
+    expect(setups).toBe(2);
+  });
+
+  it("keeps previous UI during a transition until triggered resources settle", async () => {
+    const resolvers = new Map<number, (value: string) => void>();
+    const fetchUser = (id: number): Promise<string> | string => {
+      if (id === 1) {
+        return "user-1";
+      }
+      return new Promise<string>((resolve) => {
+        resolvers.set(id, resolve);
+      });
+    };
+
+    const Profile = component<{ id: Accessor<number>; user: ResourceAccessor<string> }>((props) => () => (
+      <span data-testid="profile">
+        {props().user.loading() ? "loading" : `${props().id()}:${props().user()}`}
+      </span>
+    ));
+
+    const Spinner = component<{ pending: Accessor<boolean> }>((props) => () => (
+      <span data-testid="spinner">{props().pending() ? "pending" : "idle"}</span>
+    ));
+
+    const App = component(() => {
+      const [userId, setUserId] = createSignal(1);
+      const [user] = createResource(userId, fetchUser);
+      const [isPending, start] = useTransition();
+
+      return () => (
+        <div>
+          <button data-testid="next-user" onClick={() => void start(() => setUserId(2))}>next</button>
+          <Profile id={userId} user={user} />
+          <Spinner pending={isPending} />
+        </div>
+      );
+    });
+
+    render(<App />);
+
+    await waitFor(() => {
+      expect(screen.getByTestId("profile").textContent).toBe("1:user-1");
+    });
+
+    fireEvent.click(screen.getByTestId("next-user"));
+    expect(screen.getByTestId("spinner").textContent).toBe("pending");
+    expect(screen.getByTestId("profile").textContent).toBe("1:user-1");
+
+    resolvers.get(2)?.("user-2");
+
+    await waitFor(() => {
+      expect(screen.getByTestId("profile").textContent).toBe("2:user-2");
+      expect(screen.getByTestId("spinner").textContent).toBe("idle");
+    });
+  });
 });
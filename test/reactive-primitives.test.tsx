@@ -1,37 +1,59 @@
 import * as React from "react";
 import { cleanup, fireEvent, render, screen, waitFor } from "@testing-library/react";
 import { afterEach, describe, expect, it } from "vitest";
+import { atom, createStore as createJotaiStore, type Atom } from "jotai/vanilla";
 import {
   Suspense,
   batch,
+  catchError,
   cleanup as onCleanupAlias,
   computed,
   component,
+  configureRuntime,
   createComputed,
   createAsync,
   createEffect,
+  createHistory,
   createLayoutEffect,
   createLinkedSignal,
   createMemo,
+  createMemoFamily,
+  createProfiler,
   createResource,
+  createRoot,
   createSelector,
   createSignal,
+  createSignalFamily,
+  createStore,
+  deepEqual,
   effect,
+  from,
+  fromAtom,
   fromSignal,
   fromSolidSignal,
+  getOwner,
   linkedSignal,
   memo,
   mount,
+  observable,
   on,
   isAccessor,
   onMount,
   onCleanup,
   resolveMaybeAccessor,
+  restore,
+  shallowEqual,
   signal,
+  snapshot,
   toValue,
   toSignal,
   toSolidSignal,
+  toLoadableAtom,
   createReaction,
+  createRenderEffect,
+  graphToDot,
+  graphToJSON,
+  inspectGraph,
   untrack,
   use,
 } from "../src/index";
@@ -322,6 +344,90 @@ describe("reactive primitives", () => {
     expect(screen.getByTestId("accessor").textContent).toBe("ok");
   });
 
+  it("re-runs createAsync when a read made after an await changes", async () => {
+    const calls: string[] = [];
+
+    const { setFilter, posts, dispose } = createRoot((dispose) => {
+      const [filter, setFilter] = createSignal("all");
+      const posts = createAsync(async ({ track }) => {
+        const user = await Promise.resolve({ id: 1 });
+        const result = `${user.id}:${track(filter)}`;
+        calls.push(result);
+        return result;
+      });
+      return { setFilter, posts, dispose };
+    });
+
+    await waitFor(() => {
+      expect(posts()).toBe("1:all");
+    });
+
+    setFilter("done");
+    await waitFor(() => {
+      expect(posts()).toBe("1:done");
+    });
+
+    dispose();
+    setFilter("archived");
+    await Promise.resolve();
+    expect(calls).toEqual(["1:all", "1:done"]);
+  });
+
+  it("bridges accessors to observables and subscribables back to accessors", () => {
+    const [count, setCount] = createSignal(1);
+    const count$ = observable(count);
+    const seen: number[] = [];
+
+    const interop = count$["@@observable"]();
+    const subscription = interop.subscribe({ next: (value) => seen.push(value) });
+    setCount(2);
+    subscription.unsubscribe();
+    setCount(3);
+    expect(seen).toEqual([1, 2]);
+
+    const errors: unknown[] = [];
+    const checked$ = observable(() => {
+      if (count() < 0) {
+        throw new Error(`negative:${count()}`);
+      }
+      return count();
+    });
+    checked$.subscribe({ next: (value) => seen.push(value), error: (error) => errors.push(error) });
+    expect(() => setCount(-1)).not.toThrow();
+    setCount(4);
+    expect(seen).toEqual([1, 2, 3]);
+    expect(errors).toEqual([new Error("negative:-1")]);
+
+    const listeners = new Set<(value: string) => void>();
+    const subject = {
+      subscribe(next: (value: string) => void) {
+        listeners.add(next);
+        return { unsubscribe: () => listeners.delete(next) };
+      },
+    };
+    let stopTicks = 0;
+
+    const { latest, ticks, dispose } = createRoot((dispose) => ({
+      latest: from(subject, "idle"),
+      ticks: from<number>((set) => {
+        set(1);
+        return () => {
+          stopTicks += 1;
+        };
+      }),
+      dispose,
+    }));
+
+    expect(latest()).toBe("idle");
+    listeners.forEach((next) => next("open"));
+    expect(latest()).toBe("open");
+    expect(ticks()).toBe(1);
+
+    dispose();
+    expect(listeners.size).toBe(0);
+    expect(stopTicks).toBe(1);
+  });
+
   it("supports linked signals with override and automatic reset", async () => {
     const App = component(() => {
       const [items, setItems] = createSignal(["a", "b"]);
@@ -399,6 +505,368 @@ describe("reactive primitives", () => {
     });
   });
 
+  it("evaluates diamond dependencies once per change without glitches", () => {
+    const computeCounts = { b: 0, c: 0, d: 0 };
+    const seen: string[] = [];
+
+    const setA = createRoot(() => {
+      const [a, setA] = createSignal(1);
+      const b = createMemo(() => {
+        computeCounts.b += 1;
+        return a() * 2;
+      });
+      const c = createMemo(() => {
+        computeCounts.c += 1;
+        return a() * 3;
+      });
+      const d = createMemo(() => {
+        computeCounts.d += 1;
+        return `${a()}:${b()}:${c()}`;
+      });
+
+      createEffect(() => {
+        seen.push(d());
+      });
+
+      return setA;
+    });
+
+    expect(seen).toEqual(["1:2:3"]);
+    expect(computeCounts).toEqual({ b: 1, c: 1, d: 1 });
+
+    setA(2);
+    expect(seen).toEqual(["1:2:3", "2:4:6"]);
+    expect(computeCounts).toEqual({ b: 2, c: 2, d: 2 });
+  });
+
+  it("skips dependents when a memo recomputes to the same value", () => {
+    const runs: boolean[] = [];
+
+    const setValue = createRoot(() => {
+      const [value, setValue] = createSignal(1);
+      const isPositive = createMemo(() => value() > 0);
+
+      createEffect(() => {
+        runs.push(isPositive());
+      });
+
+      return setValue;
+    });
+
+    setValue(2);
+    setValue(3);
+    expect(runs).toEqual([true]);
+
+    setValue(-1);
+    expect(runs).toEqual([true, false]);
+  });
+
+  it("honours custom equality options on signals and memos", () => {
+    const signalRuns: string[][] = [];
+    const memoRuns: number[][] = [];
+    const forcedRuns: number[] = [];
+
+    const api = createRoot(() => {
+      const [tags, setTags] = createSignal(["a"], { equals: shallowEqual, name: "tags" });
+      const [tick, setTick] = createSignal(0, { equals: false });
+      const lengths = createMemo(() => tags().map((tag) => tag.length), { equals: deepEqual });
+
+      createEffect(() => {
+        signalRuns.push(tags());
+      });
+      createEffect(() => {
+        memoRuns.push(lengths());
+      });
+      createEffect(() => {
+        forcedRuns.push(tick());
+      });
+
+      return { setTags, setTick };
+    });
+
+    api.setTags(["a"]);
+    expect(signalRuns).toHaveLength(1);
+
+    api.setTags(["b"]);
+    expect(signalRuns).toEqual([["a"], ["b"]]);
+    expect(memoRuns).toEqual([[1]]);
+
+    api.setTick(0);
+    expect(forcedRuns).toEqual([0, 0]);
+
+    expect(shallowEqual({ a: 1 }, { a: 1 })).toBe(true);
+    expect(shallowEqual({ a: { b: 1 } }, { a: { b: 1 } })).toBe(false);
+    expect(deepEqual({ a: { b: [1] } }, { a: { b: [1] } })).toBe(true);
+    expect(deepEqual(new Map([["a", 1]]), new Map([["a", 2]]))).toBe(false);
+    expect(deepEqual(new Set([{ id: 1 }, { id: 2 }]), new Set([{ id: 2 }, { id: 1 }]))).toBe(true);
+    expect(deepEqual(new Set([{ id: 1 }, { id: 1 }]), new Set([{ id: 1 }, { id: 2 }]))).toBe(false);
+  });
+
+  it("routes effect and memo errors to catchError handlers", () => {
+    const errors: string[] = [];
+    const runs: number[] = [];
+
+    const api = createRoot(() => {
+      const [value, setValue] = createSignal(1);
+      const checked = createMemo(() => {
+        if (value() < 0) {
+          throw new Error(`negative:${value()}`);
+        }
+        return value();
+      });
+
+      catchError(() => {
+        createEffect(() => {
+          runs.push(checked());
+        });
+      }, (error) => {
+        errors.push((error as Error).message);
+      });
+
+      const [other, setOther] = createSignal(0);
+      createEffect(() => {
+        runs.push(other() * 100);
+      });
+
+      return { setValue, setOther };
+    });
+
+    batch(() => {
+      api.setValue(-1);
+      api.setOther(1);
+    });
+    expect(errors).toEqual(["negative:-1"]);
+    expect(runs).toEqual([1, 0, 100]);
+
+    api.setValue(2);
+    expect(runs).toEqual([1, 0, 100, 2]);
+
+    const thrown = createRoot(() =>
+      catchError(() => {
+        throw new Error("setup");
+      }, (error) => {
+        errors.push((error as Error).message);
+      }),
+    );
+    expect(thrown).toBeUndefined();
+    expect(errors).toEqual(["negative:-1", "setup"]);
+  });
+
+  it("reports memo cycles with the chain of memos involved", () => {
+    const errors: string[] = [];
+
+    const setEnabled = createRoot(() => {
+      const [enabled, setEnabled] = createSignal(false);
+      const memos: { total?: () => number } = {};
+      const tax = createMemo(() => (enabled() ? memos.total!() * 0.2 : 0), { name: "tax" });
+      memos.total = createMemo(() => 100 + tax(), { name: "total" });
+
+      catchError(() => {
+        createEffect(() => {
+          memos.total!();
+        });
+      }, (error) => {
+        errors.push((error as Error).message);
+      });
+
+      return setEnabled;
+    });
+
+    setEnabled(true);
+    expect(errors).toEqual([
+      'Reactive cycle detected: memo "total" -> memo "tax" -> memo "total".',
+    ]);
+  });
+
+  it("aborts effects that keep re-triggering themselves", () => {
+    configureRuntime({ maxUpdateDepth: 10 });
+    let runs = 0;
+
+    try {
+      const setValue = createRoot(() => {
+        const [value, setValue] = createSignal(0);
+        createEffect(() => {
+          runs += 1;
+          setValue(value() + 1);
+        }, { name: "runaway" });
+        return setValue;
+      });
+
+      expect(runs).toBe(1);
+
+      runs = 0;
+      expect(() => setValue(100)).toThrow(/Maximum update depth exceeded: effect "runaway" ran more than 10 times in one flush/);
+      expect(runs).toBe(10);
+    } finally {
+      configureRuntime({ maxUpdateDepth: 100 });
+    }
+  });
+
+  it("routes update-depth aborts to catchError and re-runs dropped effects on the next write", () => {
+    configureRuntime({ maxUpdateDepth: 10 });
+    const errors: string[] = [];
+    const log: string[] = [];
+
+    try {
+      const { setA, setB, setLoop } = createRoot(() => {
+        const [a, setA] = createSignal(0);
+        const [b, setB] = createSignal(0);
+        const [loop, setLoop] = createSignal(0);
+        const doubledA = createMemo(() => a() * 2);
+        catchError(() => {
+          createEffect(() => {
+            if (loop() > 0) {
+              setLoop(loop() + 1);
+            }
+          }, { name: "runaway" });
+          createEffect(() => {
+            log.push(`A${doubledA()}`);
+            if (loop() > 0) {
+              setB(loop());
+            }
+          });
+          createEffect(() => {
+            log.push(`B${b()}`);
+          });
+        }, (error) => {
+          errors.push((error as Error).message);
+        });
+        return { setA, setB, setLoop };
+      });
+
+      log.length = 0;
+      expect(() => batch(() => {
+        setLoop(1);
+        setA(1);
+      })).not.toThrow();
+      expect(errors).toEqual([
+        'Maximum update depth exceeded: effect "runaway" ran more than 10 times in one flush. A computation is likely writing to a signal it depends on.',
+      ]);
+
+      setLoop(0);
+      log.length = 0;
+      setA(1000);
+      setB(2000);
+      expect(log).toEqual(["A2000", "B2000"]);
+    } finally {
+      configureRuntime({ maxUpdateDepth: 100 });
+    }
+  });
+
+  it("inspects live signals, memos, and effects with their edges", () => {
+    const dispose = createRoot((dispose) => {
+      const [count, setCount] = createSignal(1, { name: "count" });
+      const doubled = createMemo(() => count() * 2, { name: "doubled" });
+      createEffect(() => {
+        doubled();
+      }, { name: "logger" });
+      setCount(2);
+      return dispose;
+    });
+
+    const { nodes } = inspectGraph();
+    const count = nodes.find((node) => node.name === "count")!;
+    const doubled = nodes.find((node) => node.name === "doubled")!;
+    const logger = nodes.find((node) => node.name === "logger")!;
+    const root = nodes.find((node) => node.id === count.owner)!;
+
+    expect(root.kind).toBe("root");
+    expect(count).toMatchObject({ kind: "signal", value: 2, runs: 1, observers: [doubled.id] });
+    expect(doubled).toMatchObject({ kind: "memo", value: 4, runs: 2, sources: [count.id], observers: [logger.id] });
+    expect(logger).toMatchObject({ kind: "effect", runs: 2, sources: [doubled.id], owner: root.id });
+    expect(logger).not.toHaveProperty("value");
+
+    expect(JSON.parse(graphToJSON()).nodes).toHaveLength(nodes.length);
+    const dot = graphToDot();
+    expect(dot).toContain(`n${count.id} [label="signal \\"count\\"\\n= 2\\nruns: 1", shape=ellipse];`);
+    expect(dot).toContain(`n${doubled.id} -> n${logger.id};`);
+
+    dispose();
+    expect(inspectGraph().nodes.some((node) => node.id === count.id || node.id === logger.id)).toBe(false);
+  });
+
+  it("snapshots, restores, and steps through the write history of a root", () => {
+    const greetings: string[] = [];
+
+    const root = createRoot((dispose) => {
+      const [first, setFirst] = createSignal("Ada", { name: "first" });
+      const [last, setLast] = createSignal("Lovelace", { name: "last" });
+      const [profile, setProfile] = createStore({ tags: ["math"] }, { name: "profile" });
+      createEffect(() => {
+        greetings.push(`${first()} ${last()}`);
+      });
+      const history = createHistory(getOwner(), { limit: 5 });
+      return { owner: getOwner(), first, setFirst, setLast, profile, setProfile, history, dispose };
+    });
+
+    const saved = snapshot(root.owner);
+    expect(saved).toEqual({ first: "Ada", last: "Lovelace", profile: { tags: ["math"] } });
+
+    batch(() => {
+      root.setFirst("Grace");
+      root.setLast("Hopper");
+    });
+    root.setProfile({ tags: ["navy"] });
+
+    expect(root.history.size()).toBe(2);
+    expect(root.history.entries()[0]!.changes).toEqual([
+      { key: "first", previous: "Ada", next: "Grace" },
+      { key: "last", previous: "Lovelace", next: "Hopper" },
+    ]);
+
+    greetings.length = 0;
+    expect(root.history.back()).toBe(true);
+    expect(root.profile.tags.join(",")).toBe("math");
+    expect(root.history.back()).toBe(true);
+    expect(root.history.back()).toBe(false);
+    expect(greetings).toEqual(["Ada Lovelace"]);
+
+    root.history.forward();
+    expect(greetings).toEqual(["Ada Lovelace", "Grace Hopper"]);
+    expect(root.history.position()).toBe(1);
+
+    restore(root.owner, JSON.parse(JSON.stringify(saved)));
+    expect(root.first()).toBe("Ada");
+    expect(root.history.size()).toBe(2);
+    expect(root.history.forward()).toBe(false);
+
+    root.dispose();
+  });
+
+  it("counts and times primitives while a profiler runs", async () => {
+    const profiler = createProfiler({ marks: true });
+
+    const { setCount, user, dispose } = createRoot((dispose) => {
+      const [count, setCount] = createSignal(0, { name: "count" });
+      const doubled = createMemo(() => count() * 2, { name: "doubled" });
+      createEffect(() => {
+        doubled();
+      }, { name: "sync" });
+      const [user] = createResource(async () => "ada", { name: "user" });
+      return { setCount, user, dispose };
+    });
+
+    setCount(1);
+    setCount(2);
+    await waitFor(() => {
+      expect(user()).toBe("ada");
+    });
+    profiler.stop();
+    setCount(3);
+
+    const byLabel = new Map(profiler.entries().map((entry) => [entry.label, entry]));
+    expect(byLabel.get('signal "count"')).toMatchObject({ kind: "signal", count: 2, totalMs: 0 });
+    expect(byLabel.get('memo "doubled"')).toMatchObject({ kind: "memo", count: 3 });
+    expect(byLabel.get('effect "sync"')).toMatchObject({ kind: "effect", count: 3 });
+    expect(byLabel.get('resource "user"')).toMatchObject({ kind: "resource", count: 1 });
+    expect(byLabel.get('resource "user"')!.maxMs).toBeGreaterThanOrEqual(0);
+    expect(performance.getEntriesByName('memo "doubled"', "measure").length).toBeGreaterThan(0);
+
+    profiler.reset();
+    expect(profiler.entries()).toEqual([]);
+    dispose();
+  });
+
   it("supports createComputed and onMount helpers", async () => {
     const events: string[] = [];
 
@@ -440,6 +908,54 @@ describe("reactive primitives", () => {
     expect(events).toContain("unmounted");
   });
 
+  it("runs computeds before render effects before user effects on each update", () => {
+    const order: string[] = [];
+
+    const setValue = createRoot(() => {
+      const [value, setValue] = createSignal(0);
+      const [derived, setDerived] = createSignal(0);
+
+      createEffect(() => {
+        order.push(`effect:${derived()}`);
+      });
+      createRenderEffect(() => {
+        order.push(`render:${derived()}`);
+      });
+      createComputed(() => {
+        setDerived(value() * 10);
+        order.push(`computed:${value()}`);
+      });
+
+      return setValue;
+    });
+
+    order.length = 0;
+    setValue(1);
+    expect(order).toEqual(["computed:1", "render:10", "effect:10"]);
+  });
+
+  it("keeps computed-derived signals in sync before the first paint", () => {
+    const painted: string[] = [];
+
+    const App = component(() => {
+      const [first] = createSignal("Ada");
+      const [fullName, setFullName] = createSignal("");
+
+      createComputed(() => {
+        setFullName(`${first()} Lovelace`);
+      });
+
+      return () => {
+        painted.push(fullName());
+        return <span data-testid="full-name">{fullName()}</span>;
+      };
+    });
+
+    render(<App />);
+    expect(painted[0]).toBe("Ada Lovelace");
+    expect(screen.getByTestId("full-name").textContent).toBe("Ada Lovelace");
+  });
+
   it("exposes linkedSignal alias", () => {
     const App = component(() => {
       const [source] = createSignal("a");
@@ -542,6 +1058,172 @@ describe("reactive primitives", () => {
     expect(screen.getByTestId("solid-value-alias").textContent).toBe("5");
   });
 
+  it("binds existing Jotai atoms as signals and follows store writes", async () => {
+    const store = createJotaiStore();
+    const countAtom = atom(1);
+    const doubledAtom = atom((get) => get(countAtom) * 2);
+    const resetAtom = atom(null, (_get, set, to: number) => set(countAtom, to));
+    const asyncAtom = atom(async (get) => get(countAtom) + 100);
+    const seen: number[] = [];
+
+    const { count, setCount, doubled, reset, asyncValue, dispose } = createRoot((dispose) => {
+      const [count, setCount] = fromAtom(countAtom, { store });
+      const doubled = fromAtom(doubledAtom, { store });
+      const [, reset] = fromAtom(resetAtom, { store });
+      createEffect(() => {
+        seen.push(doubled());
+      });
+      return { count, setCount, doubled, reset, asyncValue: fromAtom(asyncAtom, { store }), dispose };
+    });
+
+    setCount((n) => n + 1);
+    expect(doubled()).toBe(4);
+    store.set(countAtom, 5);
+    expect(count()).toBe(5);
+    reset(0);
+    expect(seen).toEqual([2, 4, 10, 0]);
+    expect(await asyncValue()).toBe(100);
+
+    dispose();
+    store.set(countAtom, 7);
+    expect(seen).toEqual([2, 4, 10, 0]);
+
+    const userAtom = atom({ id: 1, name: "Ada" });
+    const names: string[] = [];
+    const disposeUser = createRoot((dispose) => {
+      const [user] = fromAtom(userAtom, { store, equals: (a, b) => a.id === b.id });
+      createEffect(() => {
+        names.push(user().name);
+      });
+      return dispose;
+    });
+    store.set(userAtom, { id: 1, name: "Ada L." });
+    store.set(userAtom, { id: 2, name: "Grace" });
+    expect(names).toEqual(["Ada", "Grace"]);
+    disposeUser();
+  });
+
+  it("resolves Jotai async atoms as resources and exposes resources as loadable atoms", async () => {
+    const store = createJotaiStore();
+    const idAtom = atom(1);
+    const userAtom = atom(async (get) => {
+      const id = get(idAtom);
+      if (id < 0) {
+        throw new Error("missing");
+      }
+      return `user-${id}`;
+    });
+    const lengthAtom = atom((get) => get(idAtom) * 10);
+
+    const streamReader = { read: () => "chunk" };
+    const { user, length, reader, dispose } = createRoot((dispose) => ({
+      user: createResource(userAtom, { store })[0],
+      length: createAsync(() => lengthAtom, { store }),
+      reader: createAsync<{ read: () => string }>(() => streamReader),
+      dispose,
+    }));
+    expect(user.state()).toBe("pending");
+    await waitFor(() => expect(user()).toBe("user-1"));
+    expect(length()).toBe(10);
+    expect(reader()).toBe(streamReader);
+
+    const loadableUser = toLoadableAtom(user);
+    const states: string[] = [];
+    const unsubscribe = store.sub(loadableUser, () => {
+      states.push(store.get(loadableUser).state);
+    });
+    expect(store.get(loadableUser)).toEqual({ state: "hasData", data: "user-1" });
+
+    store.set(idAtom, 2);
+    await waitFor(() => expect(length()).toBe(20));
+    await waitFor(() => expect(user()).toBe("user-2"));
+    store.set(idAtom, -1);
+    await waitFor(() => expect(user.state()).toBe("errored"));
+    expect(store.get(loadableUser)).toEqual({ state: "hasError", error: new Error("missing") });
+    expect(states).toEqual(["hasData", "loading", "hasData", "loading", "hasError"]);
+
+    unsubscribe();
+    dispose();
+  });
+
+  it("recognises every kind of Jotai atom as a resource source, and nothing else", async () => {
+    const store = createJotaiStore();
+    const baseAtom = atom(2);
+    const labelled = atom(3);
+    labelled.debugLabel = "labelled";
+    const sources = {
+      primitive: baseAtom,
+      labelled,
+      derived: atom((get) => get(baseAtom) * 10),
+      asyncDerived: atom(async (get) => get(baseAtom) + 1),
+      writableDerived: atom((get) => get(baseAtom) - 1, (_get, set, next: number) => set(baseAtom, next)),
+    };
+    const inherited = Object.create({ toString: () => "atom2" }) as { read: () => string };
+    inherited.read = () => "inherited";
+
+    const root = createRoot((dispose) => ({
+      values: Object.entries(sources).map(([key, source]) => [key, createAsync(source as Atom<number>, { store })] as const),
+      inherited: createAsync<typeof inherited>(() => inherited),
+      dispose,
+    }));
+
+    await waitFor(() => {
+      expect(Object.fromEntries(root.values.map(([key, value]) => [key, value()]))).toEqual({
+        primitive: 2,
+        labelled: 3,
+        derived: 20,
+        asyncDerived: 3,
+        writableDerived: 1,
+      });
+    });
+    expect(root.inherited()).toBe(inherited);
+    root.dispose();
+  });
+
+  it("shares family members per key and evicts them once unreferenced", async () => {
+    const { done, labels, setPrefix, dispose } = createRoot((dispose) => {
+      const [prefix, setPrefix] = createSignal("todo");
+      return {
+        done: createSignalFamily((todo: { id: number }) => todo.id > 1, { areEqual: (a, b) => a.id === b.id }),
+        labels: createMemoFamily((id: number) => `${prefix()}-${id}`),
+        setPrefix,
+        dispose,
+      };
+    });
+
+    const [isDone, setDone] = done({ id: 1 });
+    expect(done({ id: 1 })[0]).toBe(isDone);
+    setDone(true);
+    expect(done({ id: 1 })[0]()).toBe(true);
+    expect(done({ id: 2 })[0]()).toBe(true);
+
+    expect(labels(3)).toBe(labels(3));
+    setPrefix("task");
+    expect(labels(3)()).toBe("task-3");
+
+    const readers = [1, 2].map(() =>
+      createRoot((disposeReader) => {
+        done({ id: 0 })[1](true);
+        return disposeReader;
+      }),
+    );
+    readers[0]!();
+    await Promise.resolve();
+    expect(done({ id: 0 })[0]()).toBe(true);
+    readers[1]!();
+    await Promise.resolve();
+    expect(done.keys().map((key) => key.id)).toEqual([1, 2]);
+    expect(done({ id: 0 })[0]()).toBe(false);
+
+    done.remove({ id: 1 });
+    expect(done({ id: 1 })[0]()).toBe(false);
+    done.setShouldRemove((_createdAt, key) => key.id === 2);
+    expect(done.keys().map((key) => key.id)).toEqual([0, 1]);
+
+    dispose();
+    expect(done.keys()).toEqual([]);
+  });
+
   it("allows primitives outside components via global scope", () => {
     const [value, setValue] = createSignal(1);
     const doubled = createMemo(() => value() * 2);
@@ -17,8 +17,13 @@ import {
   createSelector,
   createSignal,
   createStore,
+  disposeGlobalScope,
+  getOwner,
+  inspectGraph,
   onCleanup,
   onMount,
+  resetGlobalScope,
+  runWithOwner,
 } from "../src/index";
 
 describe("global and root scopes", () => {
@@ -131,6 +136,135 @@ describe("global and root scopes", () => {
     expect(events).toContain("root-cleanup");
   });
 
+  it("disposes children of an effect before it re-runs", () => {
+    const events: string[] = [];
+
+    const root = createRoot((dispose) => {
+      const [outer, setOuter] = createSignal(1);
+      const [inner, setInner] = createSignal("a");
+
+      createEffect(() => {
+        const run = outer();
+        createEffect(() => {
+          events.push(`inner:${run}:${inner()}`);
+          onCleanup(() => {
+            events.push(`inner-cleanup:${run}`);
+          });
+        });
+        onCleanup(() => {
+          events.push(`outer-cleanup:${run}`);
+        });
+      });
+
+      return { setOuter, setInner, dispose };
+    });
+
+    expect(events).toEqual(["inner:1:a"]);
+
+    root.setOuter(2);
+    expect(events).toEqual(["inner:1:a", "inner-cleanup:1", "outer-cleanup:1", "inner:2:a"]);
+
+    events.length = 0;
+    root.setInner("b");
+    expect(events).toEqual(["inner-cleanup:2", "inner:2:b"]);
+
+    events.length = 0;
+    root.dispose();
+    expect(events).toEqual(["inner-cleanup:2", "outer-cleanup:2"]);
+  });
+
+  it("re-enters a captured owner with runWithOwner", async () => {
+    const events: string[] = [];
+    expect(getOwner()).toBeNull();
+
+    const root = createRoot((dispose) => {
+      const owner = getOwner();
+      const [value, setValue] = createSignal(1);
+      const ready = Promise.resolve().then(() => {
+        runWithOwner(owner, () => {
+          createEffect(() => {
+            events.push(`late:${value()}`);
+          });
+        });
+      });
+      return { ready, setValue, dispose, owner };
+    });
+
+    expect(root.owner).not.toBeNull();
+    await root.ready;
+    root.setValue(2);
+    expect(events).toEqual(["late:1", "late:2"]);
+
+    root.dispose();
+    root.setValue(3);
+    expect(events).toEqual(["late:1", "late:2"]);
+  });
+
+  it("detaches global memos once their last observer is disposed", () => {
+    const events: string[] = [];
+    const [value, setValue] = createSignal(1);
+    const doubled = createMemo(() => {
+      const next = value() * 2;
+      events.push(`compute:${next}`);
+      onCleanup(() => {
+        events.push(`release:${next}`);
+      });
+      return next;
+    }, { name: "doubled" });
+
+    const dispose = createRoot((dispose) => {
+      createEffect(() => {
+        events.push(`read:${doubled()}`);
+      });
+      return dispose;
+    });
+
+    setValue(2);
+    expect(events).toEqual(["compute:2", "read:2", "release:2", "compute:4", "read:4"]);
+
+    events.length = 0;
+    dispose();
+    expect(events).toEqual(["release:4"]);
+
+    setValue(3);
+    expect(events).toEqual(["release:4"]);
+    expect(doubled()).toBe(6);
+    expect(events).toEqual(["release:4", "compute:6", "release:6"]);
+    expect(inspectGraph().nodes.find((node) => node.name === "doubled")?.sources).toEqual([]);
+  });
+
+  it("disposes and resets the default global scope", () => {
+    const events: string[] = [];
+    const [value, setValue] = createSignal(1);
+
+    createEffect(() => {
+      events.push(`effect:${value()}`);
+    });
+    onCleanup(() => {
+      events.push("global-cleanup");
+    });
+
+    disposeGlobalScope();
+    setValue(2);
+    expect(events).toEqual(["effect:1", "global-cleanup"]);
+
+    createEffect(() => {
+      events.push(`fresh:${value()}`);
+    });
+    createSignal(0, { name: "global-count" });
+    const disposeRoot = createRoot((dispose) => {
+      createSignal(0, { name: "root-count" });
+      return dispose;
+    });
+    resetGlobalScope();
+    setValue(3);
+    expect(events).toEqual(["effect:1", "global-cleanup", "fresh:2"]);
+    const names = inspectGraph().nodes.map((node) => node.name);
+    expect(names).toContain("root-count");
+    expect(names).not.toContain("global-count");
+    disposeRoot();
+  });
+
   it("allows non-scope selectors outside components", () => {
     const selector = createSelector(() => "a");
     expect(selector("a")).toBe(true);
@@ -2,7 +2,7 @@
 import * as React from "react";
 import { renderToString } from "react-dom/server";
 import { describe, expect, it } from "vitest";
-import { component, createMemo, createRoot, createSignal } from "../src/index";
+import { component, createMemo, createPersistedSignal, createRoot, createSignal } from "../src/index";
 
 describe("ssr behavior", () => {
   it("renders wrapped components with react-dom/server", () => {
@@ -41,4 +41,24 @@ describe("ssr behavior", () => {
     expect(requestA).toBe(2);
     expect(requestB).toBe(10);
   });
+
+  it("keeps persisted signals away from storage on the server", () => {
+    const storage = {
+      getItem: () => {
+        throw new Error("storage read during SSR");
+      },
+      setItem: () => {
+        throw new Error("storage write during SSR");
+      },
+      removeItem: () => undefined,
+    };
+
+    const Theme = component(() => {
+      const [theme, setTheme, { hydrated }] = createPersistedSignal("theme", "light", { storage });
+      setTheme("dark");
+      return () => <span>{`${theme()}:${hydrated()}`}</span>;
+    });
+
+    expect(renderToString(<Theme />)).toBe("<span>dark:false</span>");
+  });
 });
@@ -17,6 +17,7 @@ import {
   createReactiveArray,
   createSignal,
   createStore,
+  shallowEqual,
   arrayProjection,
   lazy,
   mutable,
@@ -71,6 +72,37 @@ describe("stores, projections, and control flow", () => {
     expect(screen.getByTestId("count").textContent).toBe("3");
   });
 
+  it("skips store re-renders when the equality option reports no change", () => {
+    let renders = 0;
+
+    const App = component(() => {
+      const [state, setState] = createStore({ filter: "all" }, { equals: shallowEqual });
+      const counter = createMutable({ count: 0 }, { equals: shallowEqual });
+
+      return () => {
+        renders += 1;
+        return (
+          <div>
+            <button data-testid="same" onClick={() => setState({ filter: "all" })}>same</button>
+            <button data-testid="same-mutable" onClick={() => { counter.count = 0; }}>same</button>
+            <button data-testid="next" onClick={() => setState({ filter: "done" })}>next</button>
+            <span data-testid="filter">{state.filter}:{counter.count}</span>
+          </div>
+        );
+      };
+    });
+
+    render(<App />);
+    const initialRenders = renders;
+
+    fireEvent.click(screen.getByTestId("same"));
+    fireEvent.click(screen.getByTestId("same-mutable"));
+    expect(renders).toBe(initialRenders);
+
+    fireEvent.click(screen.getByTestId("next"));
+    expect(screen.getByTestId("filter").textContent).toBe("done:0");
+  });
+
   it("supports mutable stores and reactive arrays", () => {
     const App = component(() => {
       const store = createMutable({